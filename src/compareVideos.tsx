@@ -0,0 +1,105 @@
+import nodeFetch from "node-fetch";
+(globalThis.fetch as typeof globalThis.fetch) = nodeFetch as never;
+
+import { Action, ActionPanel, Detail, getPreferenceValues, showToast, Toast, type LaunchProps } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { ALERT } from "./const/toast_messages";
+import { useGetComparison } from "./hooks/useGetComparison";
+import type { CachedVideo } from "./models/history";
+import type { Preferences } from "./models/preferences";
+import { loadVideo } from "./utils/loadVideo";
+import { parseVideoReference } from "./utils/parseVideoReference";
+import { linkVideoTimestamps } from "./utils/timestamps";
+
+interface CompareVideosProps {
+  firstVideo: string;
+  secondVideo: string;
+  thirdVideo?: string;
+}
+
+export default function CompareVideos(props: LaunchProps<{ arguments: CompareVideosProps }>) {
+  const { firstVideo, secondVideo, thirdVideo } = props.arguments;
+  const [videos, setVideos] = useState<CachedVideo[]>();
+  const [comparison, setComparison] = useState<string>();
+  const [comparisonIsLoading, setComparisonIsLoading] = useState(true);
+  const { transcriptLanguages } = getPreferenceValues<Preferences>();
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    const inputs = [firstVideo, secondVideo, thirdVideo].filter((video): video is string => Boolean(video?.trim()));
+    const references = inputs.map(parseVideoReference);
+
+    const invalidIndex = references.findIndex((reference) => !reference);
+    if (invalidIndex !== -1) {
+      setComparisonIsLoading(false);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid URL/ID",
+        message: `"${inputs[invalidIndex]}" is not a YouTube video, please check your input.`,
+      });
+      return;
+    }
+
+    const videoIds = references.flatMap((reference) => (reference ? [reference.videoId] : []));
+
+    Promise.all(videoIds.map((videoId) => loadVideo(videoId, transcriptLanguages, abortController.signal)))
+      .then((loadedVideos) => {
+        if (abortController.signal.aborted) return;
+        setVideos(loadedVideos);
+        return useGetComparison({
+          videos: loadedVideos,
+          setComparison,
+          setComparisonIsLoading,
+          signal: abortController.signal,
+        });
+      })
+      .catch((error) => {
+        if (abortController.signal.aborted) return;
+        setComparisonIsLoading(false);
+        showToast({
+          style: Toast.Style.Failure,
+          title: ALERT.title,
+          message: "Error fetching videos: " + error.message,
+        });
+      });
+
+    return () => abortController.abort();
+  }, [firstVideo, secondVideo, thirdVideo, transcriptLanguages]);
+
+  const videoUrls = videos?.map(({ videoData }) => videoData.video_url) ?? [];
+  const markdown = comparison && linkVideoTimestamps(comparison, videoUrls);
+
+  return (
+    <Detail
+      isLoading={comparisonIsLoading}
+      markdown={markdown}
+      navigationTitle={videos && videos.map(({ videoData }) => videoData.title).join(" vs. ")}
+      actions={
+        <ActionPanel title="Comparison Actions">
+          <Action.CopyToClipboard title="Copy Result" content={markdown ?? ""} />
+          {videos?.map(({ videoData }, index) => (
+            <Action.OpenInBrowser
+              key={videoData.videoId}
+              title={`Go to Video ${index + 1}`}
+              url={videoData.video_url}
+            />
+          ))}
+        </ActionPanel>
+      }
+      metadata={
+        videos && (
+          <Detail.Metadata>
+            {videos.map(({ videoData }, index) => (
+              <Detail.Metadata.Link
+                key={videoData.videoId}
+                title={`V${index + 1} · ${videoData.ownerChannelName}`}
+                target={videoData.video_url}
+                text={videoData.title}
+              />
+            ))}
+          </Detail.Metadata>
+        )
+      }
+    />
+  );
+}
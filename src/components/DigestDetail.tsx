@@ -0,0 +1,44 @@
+import { Action, ActionPanel, Detail } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { useGetDigest } from "../hooks/useGetDigest";
+
+type DigestDetailProps = {
+  /** Title of the playlist or channel. */
+  title: string;
+  summaries: { title: string; summary: string }[];
+  /** Digest that was created before, shown instead of creating a new one. */
+  digest?: string;
+  /** Receives the digest once it is complete. */
+  onDigest: (digest: string) => void;
+};
+
+export default function DigestDetail({ title, summaries, digest: createdDigest, onDigest }: DigestDetailProps) {
+  const [digest, setDigest] = useState<string | undefined>(createdDigest);
+  const [digestIsLoading, setDigestIsLoading] = useState(createdDigest === undefined);
+
+  useEffect(() => {
+    if (createdDigest !== undefined) return;
+
+    const abortController = new AbortController();
+    useGetDigest({ title, summaries, setDigest, setDigestIsLoading, signal: abortController.signal }).then(
+      (result) => result !== undefined && onDigest(result),
+    );
+
+    return () => abortController.abort();
+  }, []);
+
+  return (
+    <Detail
+      isLoading={digestIsLoading}
+      markdown={digest}
+      navigationTitle={`Digest of ${title}`}
+      actions={
+        digest !== undefined && (
+          <ActionPanel>
+            <Action.CopyToClipboard title="Copy Digest" content={digest} />
+          </ActionPanel>
+        )
+      }
+    />
+  );
+}
@@ -0,0 +1,139 @@
+import { getPreferenceValues, showToast, Toast } from "@raycast/api";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ALERT, STOPPED_GENERATING, TRANSCRIBING_AUDIO } from "../const/toast_messages";
+import { useGetSummary } from "../hooks/useGetSummary";
+import type { Preferences } from "../models/preferences";
+import type { StructuredSummary } from "../models/structuredSummary";
+import type { Transcript, TranscriptCleanup } from "../models/transcript";
+import type { Usage } from "../models/usage";
+import { getTranscriber } from "../transcribers/getTranscriber";
+import { prepareTranscript } from "../utils/cleanTranscript";
+import { getFileData } from "../utils/getFileData";
+import { getTranscriptText } from "../utils/getTranscriptText";
+import type { VideoDataTypes } from "../utils/getVideoData";
+import { parseTranscriptFile, TRANSCRIPT_FILE_EXTENSIONS } from "../utils/parseTranscriptFile";
+import { transcribeFile } from "../utils/transcribeVideo";
+import { validateProvider } from "../utils/validateProvider";
+import SummaryDetail from "./SummaryDetail";
+
+type FileSummaryProps = {
+  path: string;
+};
+
+async function loadTranscript(path: string, preferences: Preferences, signal: AbortSignal) {
+  if (TRANSCRIPT_FILE_EXTENSIONS.includes(extname(path).toLowerCase())) {
+    return parseTranscriptFile(path, await readFile(path, "utf-8"));
+  }
+
+  // Anything else is treated as a recording and transcribed.
+  const transcriber = getTranscriber(preferences);
+  if (!transcriber) {
+    throw new Error(
+      `Choose an audio transcription backend in preferences to summarize recordings, or pick a ${TRANSCRIPT_FILE_EXTENSIONS.join(", ")} file.`,
+    );
+  }
+  if (!validateProvider(transcriber)) return undefined;
+
+  const toast = await showToast({ style: Toast.Style.Animated, title: TRANSCRIBING_AUDIO.title });
+  return transcribeFile(
+    path,
+    transcriber,
+    (message) => {
+      toast.message = message;
+    },
+    signal,
+  );
+}
+
+export default function FileSummary({ path }: FileSummaryProps) {
+  const [summary, setSummary] = useState<string | undefined>();
+  const [summaryIsLoading, setSummaryIsLoading] = useState<boolean>(false);
+  const [summaryIsStopped, setSummaryIsStopped] = useState<boolean>(false);
+  const [usage, setUsage] = useState<Usage>();
+  const [structuredSummary, setStructuredSummary] = useState<StructuredSummary>();
+  const summaryAbortControllerRef = useRef<AbortController>();
+  const [transcript, setTranscript] = useState<Transcript | undefined>();
+  const [summaryTranscript, setSummaryTranscript] = useState<Transcript | undefined>();
+  const [transcriptCleanup, setTranscriptCleanup] = useState<TranscriptCleanup>();
+  const [fileData, setFileData] = useState<VideoDataTypes>();
+  const [templateId, setTemplateId] = useState<string | undefined>();
+  const preferences = getPreferenceValues<Preferences>();
+
+  const transcriptText = useMemo(
+    () => summaryTranscript && getTranscriptText(summaryTranscript, preferences.showTimestamps),
+    [summaryTranscript, preferences.showTimestamps],
+  );
+
+  useEffect(() => {
+    const abortController = new AbortController();
+
+    loadTranscript(path, preferences, abortController.signal)
+      .then(async (fileTranscript) => {
+        if (!fileTranscript || abortController.signal.aborted) return;
+        const prepared = await prepareTranscript("", fileTranscript, abortController.signal);
+        setFileData(await getFileData(path, fileTranscript));
+        setTranscript(fileTranscript);
+        setSummaryTranscript(prepared.transcript);
+        setTranscriptCleanup(prepared.cleanup);
+      })
+      .catch((error) => {
+        if (abortController.signal.aborted) return;
+        showToast({
+          style: Toast.Style.Failure,
+          title: ALERT.title,
+          message: "Error reading file: " + (error as Error).message,
+        });
+      });
+
+    return () => abortController.abort();
+  }, [path]);
+
+  useEffect(() => {
+    if (transcriptText === undefined || fileData === undefined) return;
+
+    const abortController = new AbortController();
+    summaryAbortControllerRef.current = abortController;
+    setSummary(undefined);
+    setSummaryIsStopped(false);
+    setUsage(undefined);
+    setStructuredSummary(undefined);
+    useGetSummary({
+      videoData: fileData,
+      templateId,
+      transcript: transcriptText,
+      setSummaryIsLoading,
+      setSummary,
+      setUsage,
+      setStructuredSummary,
+      signal: abortController.signal,
+    });
+
+    return () => abortController.abort();
+  }, [transcriptText, fileData, templateId]);
+
+  const stopGenerating = () => {
+    summaryAbortControllerRef.current?.abort();
+    setSummaryIsLoading(false);
+    setSummaryIsStopped(true);
+    showToast({ style: Toast.Style.Success, title: STOPPED_GENERATING.title, message: STOPPED_GENERATING.message });
+  };
+
+  if (!fileData) return null;
+
+  return (
+    <SummaryDetail
+      summary={summary}
+      structuredSummary={structuredSummary}
+      summaryIsLoading={summaryIsLoading}
+      summaryIsStopped={summaryIsStopped}
+      onStop={stopGenerating}
+      usage={usage}
+      transcript={transcript}
+      transcriptCleanup={transcriptCleanup}
+      videoData={fileData}
+      onChangeStyle={setTemplateId}
+    />
+  );
+}
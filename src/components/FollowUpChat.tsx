@@ -0,0 +1,131 @@
+import { Action, ActionPanel, Icon, List, useNavigation } from "@raycast/api";
+import { useEffect, useRef, useState } from "react";
+import { useFollowUpQuestion } from "../hooks/useFollowUpQuestion";
+import type { ChatTurn } from "../models/chat";
+import type { Transcript } from "../models/transcript";
+import { linkTimestamps } from "../utils/timestamps";
+
+const SUMMARY_ITEM_ID = "summary";
+
+type FollowUpChatProps = {
+  transcript: Transcript;
+  summary: string;
+  title: string;
+  /** Used to cache the transcript index, empty for local files. */
+  videoId: string;
+  videoUrl: string;
+};
+
+export default function FollowUpChat({ transcript, summary, title, videoId, videoUrl }: FollowUpChatProps) {
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [question, setQuestion] = useState("");
+  const [answerIsLoading, setAnswerIsLoading] = useState(false);
+  const [selectedItemId, setSelectedItemId] = useState<string>(SUMMARY_ITEM_ID);
+  const activeRequestRef = useRef<AbortController | null>(null);
+  const { pop } = useNavigation();
+
+  useEffect(() => () => activeRequestRef.current?.abort(), []);
+
+  const stopAnswer = () => {
+    const activeRequest = activeRequestRef.current;
+    if (!activeRequest || activeRequest.signal.aborted) return;
+
+    activeRequest.abort();
+    setTurns((previousTurns) =>
+      previousTurns.map((previousTurn, index) =>
+        index === previousTurns.length - 1 ? { ...previousTurn, stopped: true } : previousTurn,
+      ),
+    );
+    setAnswerIsLoading(false);
+  };
+
+  const askQuestion = async () => {
+    if (question.trim() === "") return;
+
+    // A new question replaces the answer that is still being written.
+    if (answerIsLoading) stopAnswer();
+
+    const abortController = new AbortController();
+    activeRequestRef.current = abortController;
+
+    const turn: ChatTurn = { id: String(Date.now()), question: question.trim(), answer: "" };
+    setTurns((previousTurns) => [...previousTurns, turn]);
+    setSelectedItemId(turn.id);
+    setQuestion("");
+    setAnswerIsLoading(true);
+
+    await useFollowUpQuestion({
+      question: turn.question,
+      title,
+      videoId,
+      transcript,
+      summary,
+      // Answers stopped before their first word would be empty messages, which providers reject.
+      history: turns.filter((previousTurn) => previousTurn.answer !== ""),
+      onAnswer: (delta) => {
+        setTurns((previousTurns) =>
+          previousTurns.map((previousTurn) =>
+            previousTurn.id === turn.id ? { ...previousTurn, answer: previousTurn.answer + delta } : previousTurn,
+          ),
+        );
+      },
+      signal: abortController.signal,
+    });
+
+    if (!abortController.signal.aborted) setAnswerIsLoading(false);
+  };
+
+  const getActions = (markdown: string) => (
+    <ActionPanel>
+      {question.trim() !== "" && <Action icon={Icon.Message} title="Ask Question" onAction={askQuestion} />}
+      {answerIsLoading && (
+        <Action
+          icon={Icon.Stop}
+          title="Stop Generating"
+          shortcut={{ modifiers: ["cmd"], key: "." }}
+          onAction={stopAnswer}
+        />
+      )}
+      <Action.CopyToClipboard title="Copy Answer" content={markdown} />
+      <Action icon={Icon.ArrowLeft} title="Back to Summary" onAction={pop} />
+    </ActionPanel>
+  );
+
+  const summaryMarkdown = linkTimestamps(summary, videoUrl);
+
+  return (
+    <List
+      filtering={false}
+      isLoading={answerIsLoading}
+      isShowingDetail
+      navigationTitle={`Questions about ${title}`}
+      onSearchTextChange={setQuestion}
+      onSelectionChange={(id) => id && setSelectedItemId(id)}
+      searchBarPlaceholder="Ask a follow-up question..."
+      searchText={question}
+      selectedItemId={selectedItemId}
+    >
+      <List.Item
+        id={SUMMARY_ITEM_ID}
+        icon={Icon.Document}
+        title="Summary"
+        detail={<List.Item.Detail markdown={summaryMarkdown} />}
+        actions={getActions(summaryMarkdown)}
+      />
+      {turns.map((turn) => {
+        const answerMarkdown =
+          linkTimestamps(turn.answer, videoUrl) + (turn.stopped ? "\n\n⏹️ *Stopped generating.*" : "");
+        return (
+          <List.Item
+            key={turn.id}
+            id={turn.id}
+            icon={Icon.QuestionMark}
+            title={turn.question}
+            detail={<List.Item.Detail markdown={`**${turn.question}**\n\n${answerMarkdown}`} />}
+            actions={getActions(answerMarkdown)}
+          />
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,265 @@
+import {
+  Action,
+  ActionPanel,
+  Detail,
+  getPreferenceValues,
+  Icon,
+  open,
+  showInFinder,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { ALERT } from "../const/toast_messages";
+import type { Preferences } from "../models/preferences";
+import type { StructuredSummary } from "../models/structuredSummary";
+import type { Transcript, TranscriptCleanup, TranscriptRange } from "../models/transcript";
+import type { Usage } from "../models/usage";
+import { formatTranscriptCleanup } from "../utils/cleanTranscript";
+import { exportSummary } from "../utils/exportSummary";
+import type { LiveStatus, VideoDataTypes } from "../utils/getVideoData";
+import { formatTimeRange, getTimestampUrl, linkTimestamps } from "../utils/timestamps";
+import { formatCost, formatUsage } from "../utils/usage";
+import FollowUpChat from "./FollowUpChat";
+import SummaryStyles from "./SummaryStyles";
+import TranscriptView from "./TranscriptView";
+
+const LIVE_STATUS_TITLES: Record<LiveStatus, string> = {
+  live: "Live Now",
+  upcoming: "Upcoming",
+  wasLive: "Live Stream",
+  premiere: "Premiere",
+};
+
+// The metadata panel is narrow, so only the first tags and the start of the description are shown.
+const MAX_TAGS = 8;
+const MAX_DESCRIPTION_CHARS = 80;
+
+type SummaryDetailProps = {
+  summary?: string;
+  /** The summary as object, for templates that ask for structured data. */
+  structuredSummary?: StructuredSummary;
+  summaryIsLoading: boolean;
+  /** Whether the summary was stopped before it was complete. */
+  summaryIsStopped?: boolean;
+  /** Aborts the summary that is being generated, keeping what was generated so far. */
+  onStop?: () => void;
+  transcript?: Transcript;
+  /** What was removed from the transcript before summarizing it. */
+  transcriptCleanup?: TranscriptCleanup;
+  /** Part of the video that was summarized, the whole video if missing. */
+  range?: TranscriptRange;
+  /** Tokens and cost the summary used, if the provider reported them. */
+  usage?: Usage;
+  videoData: VideoDataTypes;
+  /** Regenerates the summary with another prompt template. */
+  onChangeStyle?: (templateId: string) => void;
+};
+
+export default function SummaryDetail({
+  summary,
+  structuredSummary,
+  summaryIsLoading,
+  summaryIsStopped = false,
+  onStop,
+  transcript,
+  transcriptCleanup,
+  range,
+  usage,
+  videoData,
+  onChangeStyle,
+}: SummaryDetailProps) {
+  const { exportFilenameTemplate, exportFlavor, exportFolder, exportIncludeTranscript } =
+    getPreferenceValues<Preferences>();
+  const {
+    category,
+    description,
+    duration,
+    hasCaptions,
+    keywords = [],
+    likeCount,
+    liveStatus,
+    ownerChannelName,
+    ownerProfileUrl,
+    publishDate,
+    thumbnail,
+    title,
+    video_url,
+    viewCount,
+  } = videoData;
+  const descriptionStart = description
+    ?.split("\n")
+    .find((line) => line.trim())
+    ?.trim();
+
+  const markdown =
+    summary || summaryIsStopped
+      ? [
+          summary && linkTimestamps(summary, video_url),
+          summaryIsStopped && "---\n\n⏹️ *Stopped generating, the summary is incomplete.*",
+          thumbnail && `![${title}](${thumbnail.url})`,
+        ]
+          .filter(Boolean)
+          .join("\n\n")
+      : undefined;
+
+  const exportToFile = async () => {
+    if (!summary) return;
+
+    try {
+      const path = await exportSummary({
+        summary,
+        videoData,
+        transcript: exportIncludeTranscript ? transcript : undefined,
+        flavor: exportFlavor,
+        folder: exportFolder,
+        filenameTemplate: exportFilenameTemplate,
+      });
+      showToast({
+        style: Toast.Style.Success,
+        title: "Summary exported",
+        message: path,
+        primaryAction: { title: "Open File", onAction: () => open(path) },
+        secondaryAction: { title: "Show in Finder", onAction: () => showInFinder(path) },
+      });
+    } catch (error) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: ALERT.title,
+        message: "Error exporting summary: " + (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Detail
+      actions={
+        <ActionPanel title="Video Actions">
+          {onStop && summaryIsLoading && (
+            <Action
+              icon={Icon.Stop}
+              title="Stop Generating"
+              shortcut={{ modifiers: ["cmd"], key: "." }}
+              onAction={onStop}
+            />
+          )}
+          {summary && !summaryIsLoading && transcript && (
+            <Action.Push
+              icon={Icon.QuestionMark}
+              title="Ask Follow-up Question"
+              target={
+                <FollowUpChat
+                  transcript={transcript}
+                  summary={summary}
+                  title={title}
+                  videoId={videoData.videoId}
+                  videoUrl={video_url}
+                />
+              }
+            />
+          )}
+          {transcript && (
+            <Action.Push
+              icon={Icon.Text}
+              title="View Transcript"
+              shortcut={{ modifiers: ["cmd"], key: "t" }}
+              target={<TranscriptView transcript={transcript} videoData={videoData} />}
+            />
+          )}
+          {onChangeStyle && !summaryIsLoading && (
+            <Action.Push
+              icon={Icon.Brush}
+              title="Change Summary Style"
+              shortcut={{ modifiers: ["cmd"], key: "s" }}
+              target={<SummaryStyles onSelect={onChangeStyle} />}
+            />
+          )}
+          <Action.CopyToClipboard title="Copy Result" content={markdown ?? ""} />
+          {structuredSummary && (
+            <Action.CopyToClipboard
+              // "JSON" is an acronym, not a word to title case.
+              // eslint-disable-next-line @raycast/prefer-title-case
+              title="Copy as JSON"
+              content={JSON.stringify(structuredSummary, null, 2)}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "j" }}
+            />
+          )}
+          {description && <Action.CopyToClipboard title="Copy Description" content={description} />}
+          {summary && !summaryIsLoading && (
+            <Action
+              icon={Icon.SaveDocument}
+              title="Export Summary"
+              shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+              onAction={exportToFile}
+            />
+          )}
+          <Action.OpenInBrowser
+            title="Go to Video"
+            url={range?.start ? getTimestampUrl(video_url, range.start) : video_url}
+          />
+          <Action.OpenInBrowser title="Go to Channel" url={ownerProfileUrl} />
+        </ActionPanel>
+      }
+      isLoading={summaryIsLoading}
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Title" text={title} />
+          <Detail.Metadata.Link title="Channel" target={ownerProfileUrl} text={ownerChannelName} />
+          <Detail.Metadata.Separator />
+          <Detail.Metadata.Label title="Published" text={publishDate} />
+          <Detail.Metadata.Label title="Duration" text={duration} />
+          {viewCount && <Detail.Metadata.Label title="Views" text={viewCount} />}
+          {likeCount && <Detail.Metadata.Label title="Likes" text={likeCount} />}
+          {liveStatus && <Detail.Metadata.Label title="Status" text={LIVE_STATUS_TITLES[liveStatus]} />}
+          {category && <Detail.Metadata.Label title="Category" text={category} />}
+          {keywords.length > 0 && (
+            <Detail.Metadata.TagList title="Tags">
+              {keywords.slice(0, MAX_TAGS).map((keyword) => (
+                <Detail.Metadata.TagList.Item key={keyword} text={keyword} />
+              ))}
+            </Detail.Metadata.TagList>
+          )}
+          {descriptionStart && (
+            <Detail.Metadata.Label
+              title="Description"
+              text={
+                descriptionStart.length > MAX_DESCRIPTION_CHARS
+                  ? `${descriptionStart.slice(0, MAX_DESCRIPTION_CHARS)}…`
+                  : descriptionStart
+              }
+            />
+          )}
+          {range && <Detail.Metadata.Label title="Summarized Range" text={formatTimeRange(range)} />}
+          {transcript?.language && (
+            <Detail.Metadata.Label
+              title="Transcript"
+              text={transcript.trackName ?? transcript.language}
+              icon={transcript.isAutoGenerated ? Icon.Microphone : Icon.Text}
+            />
+          )}
+          {hasCaptions !== undefined && (
+            <Detail.Metadata.Label
+              title="Captions"
+              text={hasCaptions ? "Available" : "None"}
+              icon={hasCaptions ? Icon.Check : Icon.XMarkCircle}
+            />
+          )}
+          {transcriptCleanup && (
+            <Detail.Metadata.Label
+              title="Removed Before Summarizing"
+              text={formatTranscriptCleanup(transcriptCleanup)}
+            />
+          )}
+          {usage && <Detail.Metadata.Separator />}
+          {usage && (
+            <Detail.Metadata.Label title={usage.estimated ? "Estimated Tokens" : "Tokens"} text={formatUsage(usage)} />
+          )}
+          {usage?.cost !== undefined && (
+            <Detail.Metadata.Label title={usage.estimated ? "Estimated Cost" : "Cost"} text={formatCost(usage.cost)} />
+          )}
+        </Detail.Metadata>
+      }
+      navigationTitle={`${title} by ${ownerChannelName}`}
+    />
+  );
+}
@@ -0,0 +1,83 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, List, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import type { PromptTemplate } from "../models/template";
+import { getTemplates, removeCustomTemplate } from "../utils/promptTemplates";
+import TemplateForm from "./TemplateForm";
+
+type SummaryStylesProps = {
+  onSelect: (templateId: string) => void;
+};
+
+export default function SummaryStyles({ onSelect }: SummaryStylesProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>();
+  const { pop } = useNavigation();
+
+  const loadTemplates = () => getTemplates().then(setTemplates);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const deleteTemplate = async (template: PromptTemplate) => {
+    const confirmed = await confirmAlert({
+      title: `Delete "${template.title}"?`,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    await removeCustomTemplate(template);
+    await loadTemplates();
+  };
+
+  const createAction = (
+    <Action.Push
+      icon={Icon.Plus}
+      title="Create Template"
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<TemplateForm onSave={loadTemplates} />}
+    />
+  );
+
+  return (
+    <List isLoading={templates === undefined} isShowingDetail navigationTitle="Summary Styles">
+      {templates?.map((template) => (
+        <List.Item
+          key={template.id}
+          icon={template.builtIn ? Icon.Stars : Icon.Pencil}
+          title={template.title}
+          detail={<List.Item.Detail markdown={"```\n" + template.prompt + "\n```"} />}
+          actions={
+            <ActionPanel>
+              <Action
+                icon={Icon.Repeat}
+                title="Summarize with This Style"
+                onAction={() => {
+                  onSelect(template.id);
+                  pop();
+                }}
+              />
+              {createAction}
+              {!template.builtIn && (
+                <>
+                  <Action.Push
+                    icon={Icon.Pencil}
+                    title="Edit Template"
+                    shortcut={{ modifiers: ["cmd"], key: "e" }}
+                    target={<TemplateForm template={template} onSave={loadTemplates} />}
+                  />
+                  <Action
+                    icon={Icon.Trash}
+                    title="Delete Template"
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => deleteTemplate(template)}
+                  />
+                </>
+              )}
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
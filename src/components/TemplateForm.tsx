@@ -0,0 +1,57 @@
+import { Action, ActionPanel, Form, showToast, Toast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import type { PromptTemplate } from "../models/template";
+import { saveCustomTemplate } from "../utils/promptTemplates";
+
+type TemplateFormProps = {
+  template?: PromptTemplate;
+  onSave: () => void;
+};
+
+type TemplateFormValues = {
+  title: string;
+  prompt: string;
+};
+
+export default function TemplateForm({ template, onSave }: TemplateFormProps) {
+  const [titleError, setTitleError] = useState<string>();
+  const [promptError, setPromptError] = useState<string>();
+  const { pop } = useNavigation();
+
+  const submit = async ({ title, prompt }: TemplateFormValues) => {
+    if (title.trim() === "") return setTitleError("The title is required");
+    if (prompt.trim() === "") return setPromptError("The prompt is required");
+
+    await saveCustomTemplate({ id: template?.id ?? String(Date.now()), title: title.trim(), prompt });
+    showToast({ style: Toast.Style.Success, title: "Template saved" });
+    onSave();
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={template ? "Edit Template" : "Create Template"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Template" onSubmit={submit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="title"
+        title="Title"
+        defaultValue={template?.title}
+        error={titleError}
+        onChange={() => setTitleError(undefined)}
+      />
+      <Form.TextArea
+        id="prompt"
+        title="Prompt"
+        defaultValue={template?.prompt}
+        error={promptError}
+        onChange={() => setPromptError(undefined)}
+        info="Use {{title}}, {{channel}}, {{language}}, {{chapters}} and {{transcript}} as placeholders. The transcript is appended if the prompt doesn't contain {{transcript}}."
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,158 @@
+import {
+  Action,
+  ActionPanel,
+  Clipboard,
+  getPreferenceValues,
+  Icon,
+  List,
+  open,
+  showHUD,
+  showInFinder,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useMemo, useState } from "react";
+import { ALERT } from "../const/toast_messages";
+import type { Preferences } from "../models/preferences";
+import type { Transcript } from "../models/transcript";
+import { exportTranscript, type TranscriptFormat } from "../utils/exportTranscript";
+import type { VideoDataTypes } from "../utils/getVideoData";
+import { groupTranscript } from "../utils/groupTranscript";
+import { formatTimestamp, getTimestampUrl } from "../utils/timestamps";
+
+type TranscriptViewProps = {
+  transcript: Transcript;
+  videoData: VideoDataTypes;
+};
+
+const TRANSCRIPT_FORMATS: TranscriptFormat[] = ["txt", "srt", "vtt"];
+
+export default function TranscriptView({ transcript, videoData }: TranscriptViewProps) {
+  const { exportFilenameTemplate, exportFolder } = getPreferenceValues<Preferences>();
+  const [searchText, setSearchText] = useState("");
+  const [groupIntoParagraphs, setGroupIntoParagraphs] = useState(false);
+  const [isShowingDetail, setIsShowingDetail] = useState(true);
+
+  const items = useMemo(
+    () =>
+      groupIntoParagraphs
+        ? groupTranscript(transcript)
+        : transcript.segments.map(({ offset, duration, text }) => ({
+            offset,
+            duration,
+            text: text.replaceAll("\n", " ").trim(),
+            speakerChange: false,
+          })),
+    [transcript, groupIntoParagraphs],
+  );
+
+  const keywords = searchText.toLowerCase().split(/\s+/).filter(Boolean);
+  // Items keep their position in the whole transcript for "Copy from Here".
+  const matchingItems = items.flatMap((item, index) =>
+    item.text && keywords.every((keyword) => item.text.toLowerCase().includes(keyword)) ? [{ ...item, index }] : [],
+  );
+
+  // The texts can be as long as the whole transcript, so they are only built when an action is picked.
+  const copyText = async (selectedItems: typeof items) => {
+    await Clipboard.copy(selectedItems.map(({ offset, text }) => `[${formatTimestamp(offset)}] ${text}`).join("\n"));
+    await showHUD("Copied to Clipboard");
+  };
+
+  const downloadTranscript = async (format: TranscriptFormat) => {
+    try {
+      const path = await exportTranscript({
+        transcript,
+        format,
+        videoData,
+        folder: exportFolder,
+        filenameTemplate: exportFilenameTemplate,
+      });
+      showToast({
+        style: Toast.Style.Success,
+        title: "Transcript downloaded",
+        message: path,
+        primaryAction: { title: "Open File", onAction: () => open(path) },
+        secondaryAction: { title: "Show in Finder", onAction: () => showInFinder(path) },
+      });
+    } catch (error) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: ALERT.title,
+        message: "Error downloading transcript: " + (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <List
+      filtering={false}
+      isShowingDetail={isShowingDetail && matchingItems.length > 0}
+      navigationTitle={videoData.title}
+      searchBarPlaceholder="Search transcript..."
+      onSearchTextChange={setSearchText}
+    >
+      <List.EmptyView icon={Icon.MagnifyingGlass} title="No matching segments" />
+      <List.Section
+        title={groupIntoParagraphs ? "Paragraphs" : "Segments"}
+        subtitle={keywords.length ? `${matchingItems.length} of ${items.length}` : String(items.length)}
+      >
+        {matchingItems.map((item) => (
+          <List.Item
+            key={`${item.offset}-${item.text}`}
+            icon={item.speakerChange ? Icon.TwoPeople : undefined}
+            title={formatTimestamp(item.offset)}
+            subtitle={isShowingDetail ? undefined : item.text}
+            detail={<List.Item.Detail markdown={item.text} />}
+            actions={
+              <ActionPanel>
+                {videoData.videoId && (
+                  <Action.OpenInBrowser
+                    title="Open Video at Segment"
+                    url={getTimestampUrl(videoData.video_url, item.offset)}
+                  />
+                )}
+                <Action.CopyToClipboard title="Copy Segment" content={item.text} />
+                <Action
+                  icon={Icon.CopyClipboard}
+                  title={keywords.length ? "Copy Matching Segments" : "Copy Transcript"}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                  onAction={() => copyText(matchingItems)}
+                />
+                <Action
+                  icon={Icon.CopyClipboard}
+                  title="Copy from Here"
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "c" }}
+                  onAction={() => copyText(items.slice(item.index))}
+                />
+                <ActionPanel.Section>
+                  <Action
+                    icon={groupIntoParagraphs ? Icon.List : Icon.Paragraph}
+                    title={groupIntoParagraphs ? "Show Segments" : "Group into Paragraphs"}
+                    shortcut={{ modifiers: ["cmd"], key: "g" }}
+                    onAction={() => setGroupIntoParagraphs(!groupIntoParagraphs)}
+                  />
+                  <Action
+                    icon={Icon.Sidebar}
+                    title={isShowingDetail ? "Hide Details" : "Show Details"}
+                    shortcut={{ modifiers: ["cmd"], key: "d" }}
+                    onAction={() => setIsShowingDetail(!isShowingDetail)}
+                  />
+                </ActionPanel.Section>
+                <ActionPanel.Section title="Download Transcript">
+                  {TRANSCRIPT_FORMATS.map((format) => (
+                    <Action
+                      key={format}
+                      icon={Icon.Download}
+                      title={`Download as .${format}`}
+                      onAction={() => downloadTranscript(format)}
+                    />
+                  ))}
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
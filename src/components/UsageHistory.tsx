@@ -0,0 +1,65 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, List } from "@raycast/api";
+import { useEffect, useState } from "react";
+import type { UsageEntry } from "../models/usage";
+import { formatCost, formatUsage } from "../utils/usage";
+import { clearUsageHistory, getUsageHistory } from "../utils/usageHistory";
+
+const KIND_TITLES: Record<UsageEntry["kind"], string> = {
+  summary: "Summary",
+  followUp: "Follow-up",
+  digest: "Digest",
+  comparison: "Comparison",
+};
+
+export default function UsageHistory() {
+  const [entries, setEntries] = useState<UsageEntry[]>();
+
+  const loadEntries = () => getUsageHistory().then(setEntries);
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const clearEntries = async () => {
+    const confirmed = await confirmAlert({
+      title: "Clear usage history?",
+      message: "This removes the logged tokens and costs, not the summaries.",
+      primaryAction: { title: "Clear", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    await clearUsageHistory();
+    await loadEntries();
+  };
+
+  const totalCost = entries?.reduce((total, entry) => total + (entry.cost ?? 0), 0) ?? 0;
+  const actions = (
+    <ActionPanel>
+      <Action icon={Icon.Trash} title="Clear Usage History" style={Action.Style.Destructive} onAction={clearEntries} />
+    </ActionPanel>
+  );
+
+  return (
+    <List isLoading={entries === undefined} navigationTitle="Usage History" searchBarPlaceholder="Search by title...">
+      <List.EmptyView icon={Icon.Coins} title="No usage yet" description="Tokens used by the AI show up here." />
+      <List.Section title="Requests" subtitle={entries && `${formatCost(totalCost)} in total`}>
+        {entries?.map((entry) => (
+          <List.Item
+            key={entry.id}
+            icon={Icon.Coins}
+            title={entry.title || KIND_TITLES[entry.kind]}
+            subtitle={KIND_TITLES[entry.kind]}
+            keywords={[entry.model]}
+            accessories={[
+              { text: formatUsage(entry) },
+              ...(entry.cost !== undefined ? [{ tag: formatCost(entry.cost) }] : []),
+              { tag: entry.model },
+              { date: new Date(entry.createdAt) },
+            ]}
+            actions={actions}
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,185 @@
+import { getPreferenceValues, showToast, Toast } from "@raycast/api";
+import { useEffect, useMemo, useRef, useState } from "react";
+import ytdl from "ytdl-core";
+import { ALERT, STOPPED_GENERATING } from "../const/toast_messages";
+import { useGetSummary } from "../hooks/useGetSummary";
+import type { Preferences } from "../models/preferences";
+import type { StructuredSummary } from "../models/structuredSummary";
+import type { Transcript, TranscriptCleanup, TranscriptRange } from "../models/transcript";
+import type { Usage } from "../models/usage";
+import { getChapterTexts } from "../utils/chapters";
+import { prepareTranscript } from "../utils/cleanTranscript";
+import { filterTranscript } from "../utils/filterTranscript";
+import { getTranscriptText } from "../utils/getTranscriptText";
+import { getVideoData, type VideoDataTypes } from "../utils/getVideoData";
+import { getVideoTranscript, parseTranscriptLanguages } from "../utils/getVideoTranscript";
+import { cacheVideo, getCachedVideo } from "../utils/summaryHistory";
+import { formatTimestamp } from "../utils/timestamps";
+import SummaryDetail from "./SummaryDetail";
+
+type VideoSummaryProps = {
+  video: string;
+  /** Summarizes the video again even if a summary with the same settings is in the history. */
+  skipCache?: boolean;
+  /** Prompt template to start with, defaults to the `summaryStyle` preference. */
+  templateId?: string;
+  /** Part of the video to summarize, the whole video if missing. */
+  range?: TranscriptRange;
+};
+
+export default function VideoSummary({
+  video,
+  skipCache = false,
+  templateId: initialTemplateId,
+  range,
+}: VideoSummaryProps) {
+  const [summary, setSummary] = useState<string | undefined>();
+  const [summaryIsLoading, setSummaryIsLoading] = useState<boolean>(false);
+  const [summaryIsStopped, setSummaryIsStopped] = useState<boolean>(false);
+  const [usage, setUsage] = useState<Usage>();
+  const [structuredSummary, setStructuredSummary] = useState<StructuredSummary>();
+  const summaryAbortControllerRef = useRef<AbortController>();
+  const [transcript, setTranscript] = useState<Transcript | undefined>();
+  const [summaryTranscript, setSummaryTranscript] = useState<Transcript | undefined>();
+  const [transcriptCleanup, setTranscriptCleanup] = useState<TranscriptCleanup>();
+  const [videoData, setVideoData] = useState<VideoDataTypes>();
+  const [templateId, setTemplateId] = useState<string | undefined>(initialTemplateId);
+  const { showTimestamps, transcriptLanguages } = getPreferenceValues<Preferences>();
+
+  const rangeTranscript = useMemo(
+    () => transcript && filterTranscript(transcript, range),
+    [transcript, range?.start, range?.end],
+  );
+  // Videos with chapters are summarized chapter by chapter instead of in arbitrary parts.
+  const chapterTexts = useMemo(
+    () =>
+      summaryTranscript && videoData?.chapters?.length
+        ? getChapterTexts(summaryTranscript, videoData.chapters, showTimestamps)
+        : undefined,
+    [summaryTranscript, videoData?.chapters, showTimestamps],
+  );
+  const transcriptText = useMemo(
+    () => chapterTexts?.join("\n\n") ?? (summaryTranscript && getTranscriptText(summaryTranscript, showTimestamps)),
+    [chapterTexts, summaryTranscript, showTimestamps],
+  );
+
+  useEffect(() => {
+    const videoId = ytdl.getVideoID(video);
+    const abortController = new AbortController();
+
+    getCachedVideo(videoId).then((cachedVideo) => {
+      if (abortController.signal.aborted) return;
+      if (cachedVideo && cachedVideo.transcriptLanguages === transcriptLanguages) {
+        setVideoData(cachedVideo.videoData);
+        setTranscript(cachedVideo.transcript);
+        return;
+      }
+
+      const videoDataRequest = getVideoData(video).catch((error) => {
+        showToast({
+          style: Toast.Style.Failure,
+          title: ALERT.title,
+          message: "Error fetching video data: " + error.message,
+        });
+        return undefined;
+      });
+      const transcriptRequest = getVideoTranscript(
+        video,
+        parseTranscriptLanguages(transcriptLanguages),
+        abortController.signal,
+      ).catch((error) => {
+        if (abortController.signal.aborted) return undefined;
+        showToast({
+          style: Toast.Style.Failure,
+          title: ALERT.title,
+          message: "Error fetching video transcript: " + error.message,
+        });
+        return undefined;
+      });
+
+      videoDataRequest.then((data) => !abortController.signal.aborted && setVideoData(data));
+      transcriptRequest.then((videoTranscript) => !abortController.signal.aborted && setTranscript(videoTranscript));
+
+      Promise.all([videoDataRequest, transcriptRequest]).then(([data, videoTranscript]) => {
+        if (data && videoTranscript) {
+          cacheVideo(videoId, { videoData: data, transcript: videoTranscript, transcriptLanguages });
+        }
+      });
+    });
+
+    return () => abortController.abort();
+  }, [video, transcriptLanguages]);
+
+  useEffect(() => {
+    if (!rangeTranscript) return;
+    if (rangeTranscript.segments.length === 0 && transcript?.segments.length) {
+      const lastSegment = transcript.segments[transcript.segments.length - 1];
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Range",
+        message: `The range is outside the video (length ${formatTimestamp(lastSegment.offset + lastSegment.duration)}).`,
+      });
+      return;
+    }
+
+    const abortController = new AbortController();
+    prepareTranscript(ytdl.getVideoID(video), rangeTranscript, abortController.signal).then((prepared) => {
+      if (abortController.signal.aborted) return;
+      setSummaryTranscript(prepared.transcript);
+      setTranscriptCleanup(prepared.cleanup);
+    });
+
+    return () => abortController.abort();
+  }, [rangeTranscript]);
+
+  useEffect(() => {
+    if (transcriptText === undefined || videoData === undefined) return;
+
+    const abortController = new AbortController();
+    summaryAbortControllerRef.current = abortController;
+    setSummary(undefined);
+    setSummaryIsStopped(false);
+    setUsage(undefined);
+    setStructuredSummary(undefined);
+    useGetSummary({
+      videoData,
+      templateId,
+      skipCache,
+      transcript: transcriptText,
+      chapters: chapterTexts,
+      range,
+      setSummaryIsLoading,
+      setSummary,
+      setUsage,
+      setStructuredSummary,
+      signal: abortController.signal,
+    });
+
+    return () => abortController.abort();
+  }, [transcriptText, videoData?.videoId, templateId]);
+
+  const stopGenerating = () => {
+    summaryAbortControllerRef.current?.abort();
+    setSummaryIsLoading(false);
+    setSummaryIsStopped(true);
+    showToast({ style: Toast.Style.Success, title: STOPPED_GENERATING.title, message: STOPPED_GENERATING.message });
+  };
+
+  if (!videoData) return null;
+
+  return (
+    <SummaryDetail
+      summary={summary}
+      structuredSummary={structuredSummary}
+      summaryIsLoading={summaryIsLoading}
+      summaryIsStopped={summaryIsStopped}
+      onStop={stopGenerating}
+      usage={usage}
+      transcript={rangeTranscript}
+      transcriptCleanup={transcriptCleanup}
+      range={range}
+      videoData={videoData}
+      onChangeStyle={setTemplateId}
+    />
+  );
+}
@@ -0,0 +1,67 @@
+import { AI } from "@raycast/api";
+
+/** Price in US dollars per million tokens. */
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+export type ModelInfo = {
+  /** Context window of the model in tokens. */
+  contextWindow: number;
+  /** Maximum number of tokens the model can answer with. */
+  maxTokens: number;
+  /** Missing for models that aren't paid per token, like Raycast AI and self-hosted ones. */
+  price?: ModelPrice;
+};
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-3-5-sonnet-latest";
+
+export const ANTHROPIC_MODELS: Record<string, ModelInfo> = {
+  "claude-3-5-sonnet-latest": { contextWindow: 200000, maxTokens: 8192, price: { input: 3, output: 15 } },
+  "claude-3-5-haiku-latest": { contextWindow: 200000, maxTokens: 8192, price: { input: 0.8, output: 4 } },
+  "claude-3-opus-latest": { contextWindow: 200000, maxTokens: 4096, price: { input: 15, output: 75 } },
+};
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o";
+
+export const OPENAI_MODELS: Record<string, ModelInfo> = {
+  "gpt-4o": { contextWindow: 128000, maxTokens: 16384, price: { input: 2.5, output: 10 } },
+  "gpt-4o-mini": { contextWindow: 128000, maxTokens: 16384, price: { input: 0.15, output: 0.6 } },
+  "gpt-4-turbo": { contextWindow: 128000, maxTokens: 4096, price: { input: 10, output: 30 } },
+  "gpt-4": { contextWindow: 8192, maxTokens: 4096, price: { input: 30, output: 60 } },
+  o1: { contextWindow: 200000, maxTokens: 100000, price: { input: 15, output: 60 } },
+  "o1-mini": { contextWindow: 128000, maxTokens: 65536, price: { input: 1.1, output: 4.4 } },
+  "o3-mini": { contextWindow: 200000, maxTokens: 100000, price: { input: 1.1, output: 4.4 } },
+};
+
+// Reasoning models like o1 take `max_completion_tokens` instead of `max_tokens` and reject `temperature`.
+export const OPENAI_REASONING_MODEL_REGEX = /^o\d/;
+
+export const DEFAULT_OPENAI_REASONING_MODEL = "o1";
+
+export const DEFAULT_RAYCASTAI_MODEL = "anthropic-claude-haiku";
+
+// Keyed by the values of the `model` preference.
+export const RAYCASTAI_MODELS: Record<string, ModelInfo & { model: AI.Model }> = {
+  "anthropic-claude-sonnet": { model: AI.Model.Anthropic_Claude_Sonnet, contextWindow: 200000, maxTokens: 8192 },
+  "anthropic-claude-haiku": { model: AI.Model.Anthropic_Claude_Haiku, contextWindow: 200000, maxTokens: 4096 },
+  "anthropic-claude-opus": { model: AI.Model.Anthropic_Claude_Opus, contextWindow: 200000, maxTokens: 4096 },
+  "gpt-4": { model: AI.Model.OpenAI_GPT4, contextWindow: 8192, maxTokens: 4096 },
+  "gpt-4-turbo": { model: AI.Model["OpenAI_GPT4-turbo"], contextWindow: 128000, maxTokens: 4096 },
+  "gpt-4o": { model: AI.Model.OpenAI_GPT4o, contextWindow: 128000, maxTokens: 16384 },
+  "gpt-4o-mini": { model: AI.Model["OpenAI_GPT4o-mini"], contextWindow: 128000, maxTokens: 16384 },
+  "llama-3-70b": { model: AI.Model.Llama3_70B, contextWindow: 8192, maxTokens: 2048 },
+  "llama-3.1-8b": { model: AI.Model["Llama3.1_8B"], contextWindow: 128000, maxTokens: 4096 },
+  "llama-3.1-405b": { model: AI.Model["Llama3.1_405B"], contextWindow: 128000, maxTokens: 4096 },
+  "llama-3.3-70b": { model: AI.Model["Llama3.3_70B"], contextWindow: 128000, maxTokens: 4096 },
+  "mixtral-8x7b": { model: AI.Model.MixtraL_8x7B, contextWindow: 32768, maxTokens: 4096 },
+  "mistral-nemo": { model: AI.Model.Mistral_Nemo, contextWindow: 128000, maxTokens: 4096 },
+  "mistral-large2": { model: AI.Model.Mistral_Large2, contextWindow: 128000, maxTokens: 4096 },
+  "sonar-small": { model: AI.Model["Perplexity_Llama3.1_Sonar_Small"], contextWindow: 127000, maxTokens: 4096 },
+  "sonar-large": { model: AI.Model["Perplexity_Llama3.1_Sonar_Large"], contextWindow: 127000, maxTokens: 4096 },
+  "sonar-huge": { model: AI.Model["Perplexity_Llama3.1_Sonar_Huge"], contextWindow: 127000, maxTokens: 4096 },
+};
+
+// Self-hosted models often run with a small context window.
+export const OPENAI_COMPATIBLE_MODEL_INFO: ModelInfo = { contextWindow: 8192, maxTokens: 2048 };
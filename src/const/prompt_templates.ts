@@ -0,0 +1,94 @@
+import type { PromptTemplate } from "../models/template";
+
+export const DEFAULT_TEMPLATE_ID = "key-points";
+
+export const STRUCTURED_TEMPLATE_ID = "structured";
+
+export const CHAPTERS_TEMPLATE_ID = "chapters";
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    builtIn: true,
+    title: "Key Points",
+    prompt: `summarize the key points from below text, presenting them under appropriate headings in simple words. Use various Emoji to symbolize different sections, and format the content as a cohesive paragraph under each heading. Retain important details and key points. Answer in {{language}}.
+
+  Format:
+
+  [Emoji] [List Item] &nbsp;&nbsp;
+
+  Here is the transcript: {{transcript}}`,
+  },
+  {
+    id: "tldr",
+    builtIn: true,
+    title: "TL;DR",
+    prompt: `Write a TL;DR of the video "{{title}}" by {{channel}} in three to five short sentences. Only keep what someone who has no time to watch the video needs to know. Answer in {{language}}.
+
+  Here is the transcript: {{transcript}}`,
+  },
+  {
+    id: "study-notes",
+    builtIn: true,
+    title: "Study Notes",
+    prompt: `Turn the video "{{title}}" by {{channel}} into detailed study notes. Use Markdown headings for the topics, bullet points for the facts, explain every key term in a short definition and keep the examples of the video. End with a "Review Questions" section of three to five questions that check the understanding of the content. Answer in {{language}}.
+
+  Here is the transcript: {{transcript}}`,
+  },
+  {
+    id: "action-items",
+    builtIn: true,
+    title: "Action Items",
+    prompt: `List every piece of actionable advice, task and recommendation from the video "{{title}}" by {{channel}} as a Markdown checklist ("- [ ] ..."). Start each item with a verb and group the items under headings if there are many. Leave out anything that can't be acted on. Answer in {{language}}.
+
+  Here is the transcript: {{transcript}}`,
+  },
+  {
+    id: "tweet-thread",
+    builtIn: true,
+    title: "Tweet Thread",
+    prompt: `Write a thread of five to ten tweets that summarizes the video "{{title}}" by {{channel}}. Number the tweets like "1/", keep every tweet below 280 characters, make the first tweet a hook and the last one a takeaway. Don't use hashtags. Answer in {{language}}.
+
+  Here is the transcript: {{transcript}}`,
+  },
+  {
+    id: "meeting-minutes",
+    builtIn: true,
+    title: "Meeting Minutes",
+    prompt: `Write meeting minutes for the recording "{{title}}". Use the sections "Participants" (only if names are mentioned), "Topics", "Discussion", "Decisions", "Action Items" (with owners and due dates if mentioned) and "Open Questions". Keep every point short and factual. Answer in {{language}}.
+
+  Here is the transcript: {{transcript}}`,
+  },
+  {
+    id: CHAPTERS_TEMPLATE_ID,
+    builtIn: true,
+    title: "By Chapter",
+    prompt: `Summarize the video "{{title}}" by {{channel}} chapter by chapter. Write one section per chapter with the chapter title and its start timestamp in square brackets as heading, for example "## Intro [0:00]", followed by the key points of the chapter as a short list. Keep the order of the chapters. If the video has no chapters, split it into its main parts yourself and use the timestamp of the transcript line each part starts with, if there is one. Answer in {{language}}.
+
+  These are the chapters:
+  {{chapters}}
+
+  Here is the transcript: {{transcript}}`,
+  },
+  {
+    id: STRUCTURED_TEMPLATE_ID,
+    builtIn: true,
+    title: "Structured Data",
+    format: "json",
+    prompt: `Analyze the video "{{title}}" by {{channel}} and answer with a single JSON object and nothing else, no Markdown code fence and no explanation. Write all texts in {{language}}. The object has exactly these fields:
+
+  {
+    "tldr": "two or three sentences",
+    "keyPoints": [{ "text": "key point", "timestamp": "1:23" }],
+    "topics": ["topic"],
+    "entities": [{ "name": "name", "type": "person" | "organization" | "product" | "place" | "other" }],
+    "actionItems": ["actionable advice, starting with a verb"],
+    "quotes": [{ "text": "quote as said in the video", "speaker": "name", "timestamp": "1:23" }],
+    "sentiment": "positive" | "neutral" | "negative" | "mixed"
+  }
+
+  Use the timestamps of the transcript lines in square brackets for "timestamp" and leave the field out if the transcript has none. Leave "speaker" out if it isn't known. Use empty arrays for fields the video has nothing for.
+
+  Here is the transcript: {{transcript}}`,
+  },
+];
@@ -3,16 +3,41 @@ export const LONG_VIDEO = {
   message: "Quite a lot of information in that video, hold on.",
 };
 
+export const TRANSCRIBING_AUDIO = {
+  title: "🎙️",
+  message: "No captions found, transcribing the audio",
+};
+
 export const SUMMARIZING_VIDEO = {
   title: "💡",
   message: "Summarizing video",
 };
 
+export const SUMMARIZING_IN_PARTS = {
+  title: "✂️",
+  message: "The transcript is too long for the model, summarizing it in smaller parts",
+};
+
+export const RETRYING_REQUEST = {
+  title: "⏳",
+  message: "The AI provider is busy, retrying",
+};
+
 export const SUCCESS_SUMMARIZING_VIDEO = {
   title: "📝",
   message: "Video summarized!",
 };
 
+export const STOPPED_GENERATING = {
+  title: "⏹️",
+  message: "Stopped generating",
+};
+
+export const LOADED_FROM_HISTORY = {
+  title: "🗂️",
+  message: "Loaded summary from history",
+};
+
 export const ALERT = {
   title: "🚨",
 };
@@ -21,3 +46,23 @@ export const FINDING_ANSWER = {
   title: "🔍",
   message: "Answering your question",
 };
+
+export const COMPARING_VIDEOS = {
+  title: "⚖️",
+  message: "Comparing videos",
+};
+
+export const SUCCESS_COMPARING_VIDEOS = {
+  title: "📊",
+  message: "Videos compared!",
+};
+
+export const CREATING_DIGEST = {
+  title: "🧩",
+  message: "Grouping the key points of the videos",
+};
+
+export const SUCCESS_CREATING_DIGEST = {
+  title: "📚",
+  message: "Digest created!",
+};
@@ -1,30 +1,117 @@
-import { getPreferenceValues } from "@raycast/api";
-import { Preferences } from "../summarizeVideo";
-import { useAnthropicFollowUpQuestion } from "./anthropic/useAnthropicFollowUpQuestion";
-import { useOpenAIFollowUpQuestion } from "./openai/useOpenAIFollowUpQuestion";
-import { useRaycastAIFollowUpQuestion } from "./raycast/useRaycastAIFollowUpQuestion";
-
-export const useFollowUpQuestion = async (
-  question: string,
-  transcript: string,
-  setSummary: React.Dispatch<React.SetStateAction<string | undefined>>,
-  pop: () => void,
-) => {
+import { getPreferenceValues, showToast, Toast } from "@raycast/api";
+import { FINDING_ANSWER } from "../const/toast_messages";
+import type { ChatTurn } from "../models/chat";
+import { Preferences } from "../models/preferences";
+import type { Transcript } from "../models/transcript";
+import { getProvider } from "../providers/getProvider";
+import type { ChatMessage } from "../providers/types";
+import {
+  getFollowUpContextSnippet,
+  getFollowUpQuestionSnippet,
+  getRetrievalFollowUpContextSnippet,
+  getRetrievalFollowUpQuestionSnippet,
+} from "../utils/getAiInstructionSnippets";
+import { getTranscriptText } from "../utils/getTranscriptText";
+import { showProviderErrorToast } from "../utils/showProviderErrorToast";
+import { getTranscriptExcerpts, getTranscriptIndex } from "../utils/transcriptIndex";
+import { addUsage } from "../utils/usage";
+import { logUsage } from "../utils/usageHistory";
+import { validateProvider } from "../utils/validateProvider";
+
+// Transcripts up to this length are sent with every question if they fit into the model, longer ones are searched for
+// the matching parts.
+const FULL_TRANSCRIPT_CHARS = 24_000;
+// Length of the transcript excerpts that are sent with a question, if the model has room for them.
+const EXCERPT_CHARS = 8_000;
+
+type FollowUpQuestionProps = {
+  question: string;
+  /** Title of the video, logged with the usage of the answer. */
+  title: string;
+  /** Used to cache the transcript index, empty for local files. */
+  videoId: string;
+  transcript: Transcript;
+  summary: string;
+  history: ChatTurn[];
+  onAnswer: (delta: string) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Answers `question` within the conversation about the video, which starts with the transcript and its summary.
+ * Long transcripts are indexed instead, and every question only comes with the parts of the transcript that match it.
+ */
+export const useFollowUpQuestion = async ({
+  question,
+  title,
+  videoId,
+  transcript,
+  summary,
+  history,
+  onAnswer,
+  signal,
+}: FollowUpQuestionProps) => {
   const preferences = getPreferenceValues() as Preferences;
-  const { chosenAi } = preferences;
-  setSummary(undefined);
-
-  switch (chosenAi) {
-    case "anthropic":
-      useAnthropicFollowUpQuestion(question, transcript, setSummary, pop);
-      break;
-    case "openai":
-      useOpenAIFollowUpQuestion(question, transcript, setSummary, pop);
-      break;
-    case "raycastai":
-      useRaycastAIFollowUpQuestion(question, transcript, setSummary, pop);
-      break;
-    default:
-      return;
+  const { chosenAi, showTimestamps } = preferences;
+  const provider = getProvider(preferences);
+
+  if (!provider || !validateProvider(provider)) return;
+
+  const transcriptText = getTranscriptText(transcript, showTimestamps);
+  // The summary and the conversation are sent as well, so the transcript only gets the rest of the model's context.
+  const conversationChars =
+    summary.length +
+    question.length +
+    history.reduce((total, turn) => total + turn.question.length + turn.answer.length, 0);
+  const transcriptChars = Math.max(0, provider.maxChars - conversationChars);
+  const usesRetrieval = transcriptText.length > Math.min(FULL_TRANSCRIPT_CHARS, transcriptChars);
+  // Excerpts always come with timestamps, so answers can cite them.
+  const withTimestamps = showTimestamps || usesRetrieval;
+
+  const messages: ChatMessage[] = [
+    {
+      role: "user",
+      content: usesRetrieval
+        ? getRetrievalFollowUpContextSnippet(title)
+        : getFollowUpContextSnippet(transcriptText, showTimestamps),
+    },
+    { role: "assistant", content: summary },
+    ...history.flatMap((turn): ChatMessage[] => [
+      { role: "user", content: getFollowUpQuestionSnippet(turn.question, withTimestamps) },
+      { role: "assistant", content: turn.answer },
+    ]),
+  ];
+
+  if (usesRetrieval) {
+    const index = await getTranscriptIndex(videoId, transcript);
+    const excerpts = getTranscriptExcerpts(transcript, index, question, Math.min(EXCERPT_CHARS, transcriptChars));
+    messages.push({ role: "user", content: getRetrievalFollowUpQuestionSnippet(question, excerpts) });
+  } else {
+    messages.push({ role: "user", content: getFollowUpQuestionSnippet(question, showTimestamps) });
+  }
+
+  const toast = showToast({
+    style: Toast.Style.Animated,
+    title: FINDING_ANSWER.title,
+    message: FINDING_ANSWER.message,
+  });
+
+  try {
+    await provider.complete(messages, {
+      signal,
+      onText: onAnswer,
+      onUsage: (tokens) =>
+        logUsage({
+          kind: "followUp",
+          title,
+          chosenAi,
+          model: provider.model,
+          ...addUsage(undefined, tokens, provider.price),
+        }),
+    });
+    toast.then((t) => t.hide());
+  } catch (error) {
+    if (signal?.aborted) return;
+    showProviderErrorToast(error);
   }
 };
@@ -0,0 +1,100 @@
+import { getPreferenceValues, showToast, Toast } from "@raycast/api";
+import React from "react";
+import { COMPARING_VIDEOS, SUCCESS_COMPARING_VIDEOS } from "../const/toast_messages";
+import type { CachedVideo } from "../models/history";
+import { Preferences } from "../models/preferences";
+import type { TokenUsage } from "../models/usage";
+import { getProvider } from "../providers/getProvider";
+import { prepareTranscript } from "../utils/cleanTranscript";
+import { getComparisonSnippet } from "../utils/getAiInstructionSnippets";
+import { getTemporarySummary } from "../utils/getTemporarySummary";
+import { getTranscriptText } from "../utils/getTranscriptText";
+import { showProviderErrorToast } from "../utils/showProviderErrorToast";
+import { addUsage } from "../utils/usage";
+import { logUsage } from "../utils/usageHistory";
+import { validateProvider } from "../utils/validateProvider";
+
+type GetComparisonProps = {
+  videos: CachedVideo[];
+  setComparisonIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
+  setComparison: React.Dispatch<React.SetStateAction<string | undefined>>;
+  signal?: AbortSignal;
+};
+
+/**
+ * Compares videos in one prompt. Every video gets the same share of the context window,
+ * longer transcripts are summarized part by part first.
+ */
+export const useGetComparison = async ({
+  videos,
+  setComparisonIsLoading,
+  setComparison,
+  signal,
+}: GetComparisonProps) => {
+  const preferences = getPreferenceValues() as Preferences;
+  const { chosenAi, language } = preferences;
+  const provider = getProvider(preferences);
+
+  if (!provider || !validateProvider(provider) || videos.length === 0) {
+    setComparisonIsLoading(false);
+    return;
+  }
+
+  setComparisonIsLoading(true);
+  setComparison(undefined);
+
+  const maxCharsPerVideo = Math.floor(provider.maxChars / videos.length);
+  const onUsage = (tokens: TokenUsage) =>
+    logUsage({
+      kind: "comparison",
+      title: videos.map(({ videoData }) => videoData.title).join(" vs. "),
+      chosenAi,
+      model: provider.model,
+      ...addUsage(undefined, tokens, provider.price),
+    });
+
+  try {
+    const transcripts: string[] = [];
+    for (const { videoData, transcript: videoTranscript } of videos) {
+      const { transcript } = await prepareTranscript(videoData.videoId, videoTranscript, signal);
+      // Timestamps are always kept, so claims can be attributed to the moment they were made.
+      const transcriptText = getTranscriptText(transcript, true);
+      const temporarySummary = await getTemporarySummary({
+        transcript: transcriptText,
+        maxChars: maxCharsPerVideo,
+        parallel: provider.parallel,
+        summarizeBlock: (prompt) => provider.complete([{ role: "user", content: prompt }], { signal, onUsage }),
+      });
+      transcripts.push(temporarySummary || transcriptText);
+    }
+
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: COMPARING_VIDEOS.title,
+      message: COMPARING_VIDEOS.message,
+    });
+
+    const prompt = getComparisonSnippet(
+      language,
+      videos.map(({ videoData }, index) => ({
+        title: videoData.title,
+        channel: videoData.ownerChannelName,
+        transcript: transcripts[index],
+      })),
+    );
+    await provider.complete([{ role: "user", content: prompt }], {
+      signal,
+      onUsage,
+      onText: (delta) => setComparison((result) => (result ?? "") + delta),
+    });
+
+    toast.style = Toast.Style.Success;
+    toast.title = SUCCESS_COMPARING_VIDEOS.title;
+    toast.message = SUCCESS_COMPARING_VIDEOS.message;
+  } catch (error) {
+    if (signal?.aborted) return;
+    showProviderErrorToast(error);
+  } finally {
+    if (!signal?.aborted) setComparisonIsLoading(false);
+  }
+};
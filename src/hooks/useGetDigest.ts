@@ -0,0 +1,89 @@
+import { getPreferenceValues, showToast, Toast } from "@raycast/api";
+import React from "react";
+import { CREATING_DIGEST, SUCCESS_CREATING_DIGEST } from "../const/toast_messages";
+import { Preferences } from "../models/preferences";
+import type { TokenUsage } from "../models/usage";
+import { getProvider } from "../providers/getProvider";
+import { getDigestSnippet } from "../utils/getAiInstructionSnippets";
+import { getTemporarySummary } from "../utils/getTemporarySummary";
+import { showProviderErrorToast } from "../utils/showProviderErrorToast";
+import { addUsage } from "../utils/usage";
+import { logUsage } from "../utils/usageHistory";
+import { validateProvider } from "../utils/validateProvider";
+
+type GetDigestProps = {
+  /** Title of the playlist or channel, logged with the usage of the digest. */
+  title: string;
+  summaries: { title: string; summary: string }[];
+  setDigestIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
+  setDigest: React.Dispatch<React.SetStateAction<string | undefined>>;
+  signal?: AbortSignal;
+};
+
+/**
+ * Groups the key points of the video summaries by theme. Summaries that don't fit into the model together are
+ * condensed part by part first, keeping every video under its own heading.
+ * Returns the digest, or undefined if it couldn't be created.
+ */
+export const useGetDigest = async ({ title, summaries, setDigestIsLoading, setDigest, signal }: GetDigestProps) => {
+  const preferences = getPreferenceValues() as Preferences;
+  const { chosenAi, language } = preferences;
+  const provider = getProvider(preferences);
+
+  if (!provider || !validateProvider(provider) || summaries.length === 0) {
+    setDigestIsLoading(false);
+    return undefined;
+  }
+
+  setDigestIsLoading(true);
+  setDigest(undefined);
+
+  const onUsage = (tokens: TokenUsage) =>
+    logUsage({
+      kind: "digest",
+      title,
+      chosenAi,
+      model: provider.model,
+      ...addUsage(undefined, tokens, provider.price),
+    });
+
+  try {
+    const videoSummaries = summaries.map(
+      ({ title: videoTitle, summary }, index) => `## Video ${index + 1}: "${videoTitle}"\n\n${summary}`,
+    );
+    const summariesText = videoSummaries.join("\n\n");
+    const temporarySummary = await getTemporarySummary({
+      transcript: summariesText,
+      chapters: videoSummaries,
+      maxChars: provider.maxChars,
+      parallel: provider.parallel,
+      summarizeBlock: (prompt) => provider.complete([{ role: "user", content: prompt }], { signal, onUsage }),
+    });
+
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: CREATING_DIGEST.title,
+      message: CREATING_DIGEST.message,
+    });
+
+    const digest = await provider.complete(
+      [{ role: "user", content: getDigestSnippet(language, temporarySummary || summariesText) }],
+      {
+        signal,
+        onUsage,
+        onText: (delta) => setDigest((result) => (result ?? "") + delta),
+      },
+    );
+
+    toast.style = Toast.Style.Success;
+    toast.title = SUCCESS_CREATING_DIGEST.title;
+    toast.message = SUCCESS_CREATING_DIGEST.message;
+    return digest;
+  } catch (error) {
+    if (signal?.aborted) return undefined;
+    showProviderErrorToast(error);
+    return undefined;
+  } finally {
+    if (!signal?.aborted) setDigestIsLoading(false);
+  }
+};
@@ -1,45 +1,323 @@
-import { getPreferenceValues, openExtensionPreferences, showToast, Toast } from "@raycast/api";
+import { Alert, confirmAlert, getPreferenceValues, openExtensionPreferences, showToast, Toast } from "@raycast/api";
 import React from "react";
-import { ALERT } from "../const/toast_messages";
-import { Preferences } from "../summarizeVideo";
-import { useAnthropicSummary } from "./anthropic/useAnthropicSummary";
-import { useOpenAISummary } from "./openai/useOpenAISummary";
-import { useRaycastAISummary } from "./raycast/useRaycastAISummary";
+import {
+  ALERT,
+  LOADED_FROM_HISTORY,
+  RETRYING_REQUEST,
+  SUCCESS_SUMMARIZING_VIDEO,
+  SUMMARIZING_IN_PARTS,
+  SUMMARIZING_VIDEO,
+} from "../const/toast_messages";
+import { Preferences } from "../models/preferences";
+import type { StructuredSummary } from "../models/structuredSummary";
+import type { TranscriptRange } from "../models/transcript";
+import type { TokenUsage, Usage } from "../models/usage";
+import { classifyProviderError } from "../providers/errors";
+import { getProvider } from "../providers/getProvider";
+import type { ChatMessage, CompletionOptions, SummaryProvider } from "../providers/types";
+import { formatChapterList } from "../utils/chapters";
+import { getTranscriptPreparation } from "../utils/cleanTranscript";
+import { getAiInstructionSnippet, getStructuredSummaryRepairSnippet } from "../utils/getAiInstructionSnippets";
+import type { VideoDataTypes } from "../utils/getVideoData";
+import { getTemporarySummary } from "../utils/getTemporarySummary";
+import { getTemplate } from "../utils/promptTemplates";
+import { showProviderErrorToast } from "../utils/showProviderErrorToast";
+import { getStructuredSummaryMarkdown, parseStructuredSummary } from "../utils/structuredSummary";
+import { getHistoryEntry, getSummaryCacheKey, saveHistoryEntry } from "../utils/summaryHistory";
+import { addUsage, estimateSummaryUsage, formatCost, formatUsage } from "../utils/usage";
+import { logUsage } from "../utils/usageHistory";
+import { validateProvider } from "../utils/validateProvider";
 
 type GetSummaryProps = {
+  /** Summaries of videos with data are cached and show up in the history. */
+  videoData?: VideoDataTypes;
+  /** ID of the prompt template, defaults to the `summaryStyle` preference. */
+  templateId?: string;
+  skipCache?: boolean;
   transcript?: string;
+  /** Texts of the chapters the transcript consists of, if the video has chapters. */
+  chapters?: string[];
+  /** Part of the video the transcript was cut to, kept with the summary in the history. */
+  range?: TranscriptRange;
   setSummaryIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
   setSummary: React.Dispatch<React.SetStateAction<string | undefined>>;
+  /** Receives the tokens and cost the summary used, if the provider reports them. */
+  setUsage?: (usage: Usage | undefined) => void;
+  /** Receives the summary as object if the template asks for structured data. */
+  setStructuredSummary?: (structuredSummary: StructuredSummary | undefined) => void;
+  signal?: AbortSignal;
 };
 
-export const useGetSummary = async ({ transcript, setSummaryIsLoading, setSummary }: GetSummaryProps) => {
+const MAX_STRUCTURED_SUMMARY_REPAIRS = 2;
+
+// Smallest part a transcript is split into when the model keeps reporting that the prompt is too long.
+const MIN_CHARS_PER_PART = 2000;
+
+const showRetryToast = (retry: number, delay: number) =>
+  showToast({
+    style: Toast.Style.Animated,
+    title: RETRYING_REQUEST.title,
+    message: `${RETRYING_REQUEST.message} in ${Math.ceil(delay / 1000)}s (attempt ${retry + 1})`,
+  });
+
+/**
+ * Asks before sending prompts whose estimated cost is above the `costConfirmationThreshold` preference.
+ */
+async function confirmEstimatedCost(estimate: Usage, threshold: string) {
+  const maxCost = parseFloat(threshold);
+  if (estimate.cost === undefined || Number.isNaN(maxCost) || estimate.cost <= maxCost) return true;
+
+  return confirmAlert({
+    title: `Summarize for about ${formatCost(estimate.cost)}?`,
+    message: `The summary will use about ${formatUsage(estimate)} tokens, which is more than your threshold of ${formatCost(maxCost)}.`,
+    primaryAction: { title: "Summarize" },
+    dismissAction: { title: "Cancel", style: Alert.ActionStyle.Cancel },
+  });
+}
+
+/**
+ * Asks for a structured summary and, while the answer isn't valid, sends the problem back to the model to correct it.
+ */
+async function completeStructuredSummary(
+  provider: SummaryProvider,
+  messages: ChatMessage[],
+  options: CompletionOptions,
+): Promise<StructuredSummary> {
+  for (let repair = 0; ; repair++) {
+    const answer = await provider.complete(messages, options);
+    try {
+      return parseStructuredSummary(answer);
+    } catch (error) {
+      const problem = (error as Error).message;
+      if (repair >= MAX_STRUCTURED_SUMMARY_REPAIRS) {
+        throw new Error(`The AI didn't answer with a valid structured summary, ${problem}.`);
+      }
+
+      messages = [
+        ...messages,
+        { role: "assistant", content: answer },
+        { role: "user", content: getStructuredSummaryRepairSnippet(problem) },
+      ];
+    }
+  }
+}
+
+export const useGetSummary = async (props: GetSummaryProps) => {
+  const {
+    videoData,
+    templateId,
+    skipCache = false,
+    transcript,
+    chapters,
+    range,
+    setSummaryIsLoading,
+    setSummary,
+    setUsage,
+    setStructuredSummary,
+    signal,
+  } = props;
   const preferences = getPreferenceValues() as Preferences;
-  const { chosenAi } = preferences;
-
-  switch (chosenAi) {
-    case "anthropic":
-      useAnthropicSummary({ transcript, setSummaryIsLoading, setSummary });
-      break;
-    case "openai":
-      useOpenAISummary({ transcript, setSummaryIsLoading, setSummary });
-      break;
-    case "raycastai":
-      useRaycastAISummary({ transcript, setSummaryIsLoading, setSummary });
-      break;
-    default:
-      showToast({
-        style: Toast.Style.Failure,
-        title: ALERT.title,
-        message: "Please select an AI model in preferences.",
-        primaryAction: {
-          title: "Open Exetension Settings",
-          onAction: () => openExtensionPreferences(),
-        },
-      });
-      return;
+  const { chosenAi, costConfirmationThreshold, includeDescription, language, showTimestamps, summaryStyle } =
+    preferences;
+  const provider = getProvider(preferences);
+
+  if (!provider) {
+    setSummaryIsLoading(false);
+    showToast({
+      style: Toast.Style.Failure,
+      title: ALERT.title,
+      message: "Please select an AI model in preferences.",
+      primaryAction: {
+        title: "Open Extension Preferences",
+        onAction: () => openExtensionPreferences(),
+      },
+    });
+    return;
   }
 
   if (!transcript) return;
 
-  return null;
+  const videoId = videoData?.videoId;
+  const template = await getTemplate(templateId ?? summaryStyle);
+  const getInstructions = (text: string) =>
+    getAiInstructionSnippet(
+      template,
+      {
+        title: videoData?.title ?? "",
+        channel: videoData?.ownerChannelName ?? "",
+        language,
+        chapters: formatChapterList(videoData?.chapters ?? [], range),
+        transcript: text,
+      },
+      showTimestamps,
+      includeDescription ? videoData?.description : undefined,
+    );
+
+  const cacheKey =
+    videoId &&
+    getSummaryCacheKey({
+      videoId,
+      chosenAi,
+      model: provider.model,
+      language,
+      prompt: getInstructions(""),
+      transcriptPreparation: getTranscriptPreparation(preferences),
+      range,
+    });
+
+  const cachedEntry = cacheKey && !skipCache ? await getHistoryEntry(cacheKey) : undefined;
+  if (cachedEntry) {
+    setSummary(cachedEntry.summary);
+    setStructuredSummary?.(cachedEntry.structuredSummary);
+    setUsage?.(cachedEntry.usage);
+    setSummaryIsLoading(false);
+    showToast({
+      style: Toast.Style.Success,
+      title: LOADED_FROM_HISTORY.title,
+      message: LOADED_FROM_HISTORY.message,
+    });
+    return;
+  }
+
+  if (!validateProvider(provider)) {
+    setSummaryIsLoading(false);
+    return;
+  }
+
+  const estimate = estimateSummaryUsage(
+    getInstructions(transcript),
+    transcript.length,
+    provider.maxChars,
+    provider.price,
+  );
+  if (!(await confirmEstimatedCost(estimate, costConfirmationThreshold))) {
+    setSummaryIsLoading(false);
+    return;
+  }
+  // "Try Again" runs this again, so the partial results of a failed run are cleared before streaming anew.
+  setSummary(undefined);
+  setStructuredSummary?.(undefined);
+  // The estimate is shown until the provider reports the actual usage.
+  setUsage?.({ ...estimate, estimated: true });
+
+  let usage: Usage | undefined;
+  const onUsage = (tokens: TokenUsage) => {
+    usage = addUsage(usage, tokens, provider.price);
+  };
+  // Stopped and failed runs are logged as well, with the tokens of the requests that were done until then.
+  let usageIsLogged = false;
+  const logSummaryUsage = () => {
+    if (!usage || usageIsLogged) return;
+    usageIsLogged = true;
+    logUsage({ kind: "summary", title: videoData?.title ?? "", chosenAi, model: provider.model, ...usage });
+  };
+
+  setSummaryIsLoading(true);
+
+  const summarize = async (maxChars: number) => {
+    const temporarySummary = await getTemporarySummary({
+      transcript,
+      chapters,
+      maxChars,
+      parallel: provider.parallel,
+      summarizeBlock: (prompt) =>
+        provider.complete([{ role: "user", content: prompt }], { signal, onRetry: showRetryToast, onUsage }),
+    });
+
+    const aiInstructions = getInstructions(temporarySummary.length > 0 ? temporarySummary : transcript);
+
+    showToast({
+      style: Toast.Style.Animated,
+      title: SUMMARIZING_VIDEO.title,
+      message: SUMMARIZING_VIDEO.message,
+    });
+
+    const messages: ChatMessage[] = [{ role: "user", content: aiInstructions }];
+
+    if (template.format === "json") {
+      const structuredSummary = await completeStructuredSummary(provider, messages, {
+        signal,
+        onRetry: showRetryToast,
+        onUsage,
+      });
+      const summary = getStructuredSummaryMarkdown(structuredSummary);
+      setSummary(summary);
+      return { summary, structuredSummary };
+    }
+
+    const summary = await provider.complete(messages, {
+      signal,
+      onRetry: showRetryToast,
+      onUsage,
+      onText: (delta) => {
+        setSummary((result) => {
+          if (result === undefined) return delta || undefined;
+          return result + delta || result;
+        });
+      },
+    });
+    return { summary };
+  };
+
+  try {
+    let maxChars = provider.maxChars;
+    let result: Awaited<ReturnType<typeof summarize>> | undefined;
+
+    // The model limits are estimates, so a prompt that is still too long is summarized again in smaller parts.
+    while (result === undefined) {
+      try {
+        result = await summarize(maxChars);
+      } catch (error) {
+        const partChars = Math.floor(Math.min(maxChars, transcript.length) / 2);
+        if (
+          signal?.aborted ||
+          classifyProviderError(error).kind !== "contextOverflow" ||
+          partChars < MIN_CHARS_PER_PART
+        ) {
+          throw error;
+        }
+
+        maxChars = partChars;
+        setSummary(undefined);
+        showToast({
+          style: Toast.Style.Animated,
+          title: SUMMARIZING_IN_PARTS.title,
+          message: SUMMARIZING_IN_PARTS.message,
+        });
+      }
+    }
+
+    const { summary, structuredSummary } = result;
+    setStructuredSummary?.(structuredSummary);
+    if (usage) setUsage?.(usage);
+    logSummaryUsage();
+
+    if (videoId && cacheKey) {
+      await saveHistoryEntry({
+        key: cacheKey,
+        videoId,
+        chosenAi,
+        model: provider.model,
+        language,
+        templateId: template.id,
+        range,
+        usage,
+        summary,
+        structuredSummary,
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    setSummaryIsLoading(false);
+    showToast({
+      style: Toast.Style.Success,
+      title: SUCCESS_SUMMARIZING_VIDEO.title,
+      message: SUCCESS_SUMMARIZING_VIDEO.message,
+    });
+  } catch (error) {
+    logSummaryUsage();
+    if (signal?.aborted) return;
+    setSummaryIsLoading(false);
+    showProviderErrorToast(error, () => useGetSummary({ ...props, skipCache: true }));
+  }
 };
@@ -0,0 +1,7 @@
+export type ChatTurn = {
+  id: string;
+  question: string;
+  answer: string;
+  /** Whether the answer was stopped before it was complete. */
+  stopped?: boolean;
+};
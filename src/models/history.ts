@@ -0,0 +1,40 @@
+import type { VideoDataTypes } from "../utils/getVideoData";
+import type { StructuredSummary } from "./structuredSummary";
+import type { Transcript, TranscriptRange } from "./transcript";
+import type { Usage } from "./usage";
+
+export type CachedVideo = {
+  videoData: VideoDataTypes;
+  transcript: Transcript;
+  /** Value of the `transcriptLanguages` preference the transcript was picked with. */
+  transcriptLanguages?: string;
+};
+
+export type SummaryCacheKeyProps = {
+  videoId: string;
+  chosenAi: string;
+  model: string;
+  language: string;
+  prompt: string;
+  /** How the transcript is cleaned up before summarizing, from `getTranscriptPreparation`. */
+  transcriptPreparation: string;
+  range?: TranscriptRange;
+};
+
+export type HistoryEntry = {
+  key: string;
+  videoId: string;
+  chosenAi: string;
+  model: string;
+  language: string;
+  /** ID of the prompt template the summary was written with. */
+  templateId?: string;
+  /** Part of the video that was summarized, the whole video if missing. */
+  range?: TranscriptRange;
+  /** Tokens and cost of generating the summary, if the provider reported them. */
+  usage?: Usage;
+  summary: string;
+  /** The summary as object, for templates that ask for structured data. */
+  structuredSummary?: StructuredSummary;
+  createdAt: string;
+};
@@ -1,8 +1,34 @@
 export type Preferences = {
-    chosenAi: "anthropic" | "openai" | "raycastai";
-    creativity: string;
-    model: string;
-    openaiApiToken: string;
-    anthropicApiToken: string;
-    language: string;
-  };
\ No newline at end of file
+  chosenAi: "anthropic" | "openai" | "openaicompatible" | "raycastai";
+  creativity: string;
+  model: string;
+  openaiModel: string;
+  anthropicModel: string;
+  customModel: string;
+  openaiApiToken: string;
+  anthropicApiToken: string;
+  openaiCompatibleBaseUrl: string;
+  openaiCompatibleApiToken: string;
+  openaiCompatibleModel: string;
+  language: string;
+  transcriptLanguages: string;
+  transcriptionBackend: "none" | "whispercpp" | "openaicompatible";
+  whisperCppPath: string;
+  whisperCppModel: string;
+  ffmpegPath: string;
+  transcriptionBaseUrl: string;
+  transcriptionApiToken: string;
+  transcriptionModel: string;
+  showTimestamps: boolean;
+  startFromTimestamp: boolean;
+  includeDescription: boolean;
+  cleanTranscript: boolean;
+  sponsorBlockDatabase: string;
+  sponsorBlockUrl: string;
+  summaryStyle: string;
+  costConfirmationThreshold: string;
+  exportFolder: string;
+  exportFilenameTemplate: string;
+  exportFlavor: "markdown" | "obsidian" | "notion";
+  exportIncludeTranscript: boolean;
+};
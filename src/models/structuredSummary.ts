@@ -0,0 +1,20 @@
+export type StructuredSummary = {
+  tldr: string;
+  keyPoints: {
+    text: string;
+    /** Moment of the video like `1:23`, if the transcript has timestamps. */
+    timestamp?: string;
+  }[];
+  topics: string[];
+  entities: {
+    name: string;
+    type: "person" | "organization" | "product" | "place" | "other";
+  }[];
+  actionItems: string[];
+  quotes: {
+    text: string;
+    speaker?: string;
+    timestamp?: string;
+  }[];
+  sentiment: "positive" | "neutral" | "negative" | "mixed";
+};
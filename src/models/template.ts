@@ -0,0 +1,18 @@
+export type PromptTemplate = {
+  id: string;
+  title: string;
+  /** Prompt with variables like `{{title}}`, see `TemplateVariables`. */
+  prompt: string;
+  builtIn?: boolean;
+  /** `json` templates answer with a `StructuredSummary` instead of Markdown. */
+  format?: "markdown" | "json";
+};
+
+export type TemplateVariables = {
+  title: string;
+  channel: string;
+  language: string;
+  /** Chapters of the video as `0:00 Title` lines, empty if it has none. */
+  chapters: string;
+  transcript: string;
+};
@@ -0,0 +1,39 @@
+export type TranscriptSegment = {
+  text: string;
+  /** Start of the segment in seconds. */
+  offset: number;
+  /** Length of the segment in seconds. */
+  duration: number;
+};
+
+export type Transcript = {
+  segments: TranscriptSegment[];
+  /** Language code of the caption track, e.g. `de`. */
+  language?: string;
+  /** Name of the caption track as YouTube shows it, e.g. `German (auto-generated)`. */
+  trackName?: string;
+  isAutoGenerated?: boolean;
+};
+
+/** Part of a video in seconds with sponsored content, in the format of SponsorBlock. */
+export type SponsorSegment = {
+  start: number;
+  end: number;
+  /** SponsorBlock category like `sponsor`, `selfpromo` or `interaction`. */
+  category: string;
+};
+
+/** What was removed from a transcript before summarizing it. */
+export type TranscriptCleanup = {
+  totalChars: number;
+  removedChars: number;
+  sponsorSegments: number;
+  /** Where the sponsor segments come from, missing if none were found. */
+  sponsorSource?: "sponsorBlock" | "keywords";
+};
+
+/** Part of a video in seconds, open-ended where `start` or `end` is missing. */
+export type TranscriptRange = {
+  start?: number;
+  end?: number;
+};
@@ -0,0 +1,20 @@
+/** A few consecutive transcript segments that are retrieved together. */
+export type TranscriptIndexChunk = {
+  /** Index of the first transcript segment of the chunk. */
+  start: number;
+  /** Index after the last transcript segment of the chunk. */
+  end: number;
+  /** Number of terms in the chunk. */
+  length: number;
+  /** How often each term occurs in the chunk. */
+  terms: Record<string, number>;
+};
+
+/** BM25 index of a transcript, to find the parts that answer a question. */
+export type TranscriptIndex = {
+  version: number;
+  chunks: TranscriptIndexChunk[];
+  /** Number of chunks each term occurs in. */
+  chunkFrequencies: Record<string, number>;
+  averageLength: number;
+};
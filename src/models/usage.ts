@@ -0,0 +1,21 @@
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type Usage = TokenUsage & {
+  /** Cost in US dollars, missing for models without known prices. */
+  cost?: number;
+  /** Set while only the estimate from before the request is known. */
+  estimated?: boolean;
+};
+
+export type UsageEntry = Usage & {
+  id: string;
+  kind: "summary" | "followUp" | "digest" | "comparison";
+  /** Title of the video, file or playlist the request was about. */
+  title: string;
+  chosenAi: string;
+  model: string;
+  createdAt: string;
+};
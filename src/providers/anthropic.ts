@@ -0,0 +1,54 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { ANTHROPIC_MODELS, DEFAULT_ANTHROPIC_MODEL } from "../const/models";
+import type { Preferences } from "../models/preferences";
+import { getMaxChars } from "../utils/getMaxChars";
+import type { SummaryProvider } from "./types";
+
+export const createAnthropicProvider = ({
+  anthropicApiToken,
+  anthropicModel,
+  customModel,
+}: Preferences): SummaryProvider => {
+  const model = customModel.trim() || anthropicModel || DEFAULT_ANTHROPIC_MODEL;
+  const modelInfo = ANTHROPIC_MODELS[model] ?? ANTHROPIC_MODELS[DEFAULT_ANTHROPIC_MODEL];
+  // Custom models borrow the limits of the default model, but not its price.
+  const price = ANTHROPIC_MODELS[model]?.price;
+
+  const anthropic = new Anthropic({
+    apiKey: anthropicApiToken,
+    // Retries are handled for all providers in `getProvider`.
+    maxRetries: 0,
+  });
+
+  return {
+    model,
+    maxChars: getMaxChars(modelInfo),
+    parallel: true,
+    price,
+    validate: () => {
+      if (anthropicApiToken === "") {
+        return "Anthropic Developer Account is required for this extension to work. You need to add your API token in preferences.";
+      }
+      if (!model.startsWith("claude-")) {
+        return `"${model}" is not an Anthropic model. Please choose a Claude model in preferences.`;
+      }
+      return undefined;
+    },
+    complete: async (messages, { signal, onText, onUsage } = {}) => {
+      const stream = anthropic.messages.stream(
+        {
+          model,
+          max_tokens: modelInfo.maxTokens,
+          messages,
+        },
+        { signal },
+      );
+
+      if (onText) stream.on("text", onText);
+
+      const [text, message] = await Promise.all([stream.finalText(), stream.finalMessage()]);
+      onUsage?.({ inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens });
+      return text;
+    },
+  };
+};
@@ -0,0 +1,95 @@
+export type ProviderErrorKind =
+  | "invalidKey"
+  | "quota"
+  | "rateLimit"
+  | "overloaded"
+  | "contextOverflow"
+  | "network"
+  | "unknown";
+
+export type ProviderError = {
+  kind: ProviderErrorKind;
+  message: string;
+  /** Milliseconds the provider asked to wait before the next request. */
+  retryAfter?: number;
+};
+
+// Errors of the Anthropic and OpenAI SDKs, and plain `fetch` errors, share these fields.
+type ErrorLike = {
+  name?: string;
+  message?: string;
+  status?: number;
+  code?: string | null;
+  headers?: Headers | Record<string, string | null | undefined>;
+  error?: { type?: string; code?: string; error?: { type?: string } };
+  cause?: { code?: string };
+};
+
+const CONTEXT_OVERFLOW_REGEX =
+  /context[ _](length|window)|maximum context|prompt is too long|too many tokens|reduce the length|input is too long/i;
+const QUOTA_REGEX = /quota|billing|credit balance|insufficient[ _]funds/i;
+const INVALID_KEY_REGEX = /api[ _]key|unauthori[sz]ed|authentication/i;
+const NETWORK_CODES = ["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "ETIMEDOUT", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT"];
+
+/** Errors that are worth retrying after a while. */
+export const TRANSIENT_ERROR_KINDS: ProviderErrorKind[] = ["rateLimit", "overloaded", "network"];
+
+function getHeader(headers: ErrorLike["headers"], name: string) {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === "function") return (headers as Headers).get(name) ?? undefined;
+  return (headers as Record<string, string | null | undefined>)[name] ?? undefined;
+}
+
+/**
+ * Reads `retry-after-ms` or `retry-after`, which holds either seconds or an HTTP date.
+ */
+function getRetryAfter(headers: ErrorLike["headers"]) {
+  const retryAfterMs = Number(getHeader(headers, "retry-after-ms"));
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = getHeader(headers, "retry-after");
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getKind(error: ErrorLike): ProviderErrorKind {
+  const message = error.message ?? "";
+  const type = error.error?.type ?? error.error?.error?.type;
+  const code = error.code ?? error.error?.code;
+
+  if (code === "context_length_exceeded" || CONTEXT_OVERFLOW_REGEX.test(message)) return "contextOverflow";
+  if (code === "insufficient_quota" || (error.status !== 401 && QUOTA_REGEX.test(message))) return "quota";
+  if (error.status === 401 || error.status === 403 || type === "authentication_error") return "invalidKey";
+  if (error.status === 429 || type === "rate_limit_error") return "rateLimit";
+  if (error.status === 529 || (error.status !== undefined && error.status >= 500) || type === "overloaded_error") {
+    return "overloaded";
+  }
+  if (
+    error.name === "APIConnectionError" ||
+    error.name === "APIConnectionTimeoutError" ||
+    message === "fetch failed" ||
+    NETWORK_CODES.includes(error.cause?.code ?? "")
+  ) {
+    return "network";
+  }
+  if (error.status === undefined && INVALID_KEY_REGEX.test(message)) return "invalidKey";
+  return "unknown";
+}
+
+/**
+ * Sorts errors of any provider into the kinds the extension reacts to differently.
+ */
+export function classifyProviderError(error: unknown): ProviderError {
+  const errorLike = (typeof error === "object" && error !== null ? error : { message: String(error) }) as ErrorLike;
+
+  return {
+    kind: getKind(errorLike),
+    message: errorLike.message ?? "Unknown error",
+    retryAfter: getRetryAfter(errorLike.headers),
+  };
+}
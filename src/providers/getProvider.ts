@@ -0,0 +1,99 @@
+import type { Preferences } from "../models/preferences";
+import { createAnthropicProvider } from "./anthropic";
+import { classifyProviderError, TRANSIENT_ERROR_KINDS } from "./errors";
+import { createOpenAIProvider } from "./openai";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { createRaycastAIProvider } from "./raycastai";
+import type { SummaryProvider } from "./types";
+
+const providers: Record<Preferences["chosenAi"], (preferences: Preferences) => SummaryProvider> = {
+  anthropic: createAnthropicProvider,
+  openai: createOpenAIProvider,
+  openaicompatible: createOpenAICompatibleProvider,
+  raycastai: createRaycastAIProvider,
+};
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30_000;
+
+const wait = (delay: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, delay);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+
+/**
+ * Retries rate limits, overloaded servers and network errors with exponential backoff, or as long as the
+ * provider asks for with `retry-after`. Answers that already streamed text aren't retried, as they would
+ * repeat themselves.
+ */
+const withRetry =
+  (complete: SummaryProvider["complete"]): SummaryProvider["complete"] =>
+  async (messages, options = {}) => {
+    const { signal, onText, onRetry } = options;
+
+    for (let retry = 1; ; retry++) {
+      let hasStreamed = false;
+      try {
+        return await complete(messages, {
+          ...options,
+          onText: (delta) => {
+            hasStreamed = true;
+            onText?.(delta);
+          },
+        });
+      } catch (error) {
+        const { kind, retryAfter } = classifyProviderError(error);
+        const delay = retryAfter ?? BASE_RETRY_DELAY * 2 ** (retry - 1) * (1 + Math.random() / 4);
+        if (
+          signal?.aborted ||
+          hasStreamed ||
+          retry > MAX_RETRIES ||
+          !TRANSIENT_ERROR_KINDS.includes(kind) ||
+          delay > MAX_RETRY_DELAY
+        ) {
+          throw error;
+        }
+
+        onRetry?.(retry, delay);
+        await wait(delay, signal);
+      }
+    }
+  };
+
+/**
+ * Rejects as soon as `signal` is aborted and drops text that is still streamed afterwards,
+ * so a stopped answer never changes the view again, whichever provider is still winding down.
+ */
+const withAbort =
+  (complete: SummaryProvider["complete"]): SummaryProvider["complete"] =>
+  (messages, options = {}) => {
+    const { signal, onText } = options;
+    if (!signal) return complete(messages, options);
+    if (signal.aborted) return Promise.reject(signal.reason);
+
+    return new Promise((resolve, reject) => {
+      const abort = () => reject(signal.reason);
+      signal.addEventListener("abort", abort, { once: true });
+
+      complete(messages, {
+        ...options,
+        onText: onText && ((delta) => !signal.aborted && onText(delta)),
+      })
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", abort));
+    });
+  };
+
+export function getProvider(preferences: Preferences): SummaryProvider | undefined {
+  const provider = providers[preferences.chosenAi]?.(preferences);
+  return provider && { ...provider, complete: withAbort(withRetry(provider.complete)) };
+}
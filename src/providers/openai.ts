@@ -0,0 +1,85 @@
+import OpenAI from "openai";
+import {
+  DEFAULT_OPENAI_MODEL,
+  DEFAULT_OPENAI_REASONING_MODEL,
+  OPENAI_MODELS,
+  OPENAI_REASONING_MODEL_REGEX,
+  type ModelInfo,
+} from "../const/models";
+import type { Preferences } from "../models/preferences";
+import { getMaxChars } from "../utils/getMaxChars";
+import type { SummaryProvider } from "./types";
+
+const OPENAI_MODEL_REGEX = /^(gpt-|chatgpt-|o\d)/;
+
+/**
+ * Streams chat completions from any server that speaks the OpenAI API.
+ * With `includeUsage`, the server is asked for the tokens it used, which not every OpenAI-compatible server supports.
+ */
+export const getOpenAICompletion =
+  (
+    openai: OpenAI,
+    model: string,
+    modelInfo: ModelInfo,
+    temperature: number,
+    includeUsage = false,
+  ): SummaryProvider["complete"] =>
+  async (messages, { signal, onText, onUsage } = {}) => {
+    const stream = openai.beta.chat.completions.stream(
+      {
+        model,
+        ...(OPENAI_REASONING_MODEL_REGEX.test(model)
+          ? { max_completion_tokens: modelInfo.maxTokens }
+          : { temperature, max_tokens: modelInfo.maxTokens }),
+        messages,
+        stream: true,
+        ...(includeUsage && { stream_options: { include_usage: true } }),
+      },
+      { signal },
+    );
+
+    if (onText) stream.on("content", onText);
+
+    const completion = await stream.finalChatCompletion();
+    if (completion.usage) {
+      onUsage?.({ inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens });
+    }
+    return completion.choices[0]?.message.content ?? "";
+  };
+
+export const createOpenAIProvider = ({
+  creativity,
+  customModel,
+  openaiApiToken,
+  openaiModel,
+}: Preferences): SummaryProvider => {
+  const model = customModel.trim() || openaiModel || DEFAULT_OPENAI_MODEL;
+  const modelInfo =
+    OPENAI_MODELS[model] ??
+    OPENAI_MODELS[OPENAI_REASONING_MODEL_REGEX.test(model) ? DEFAULT_OPENAI_REASONING_MODEL : DEFAULT_OPENAI_MODEL];
+  // Custom models borrow the limits of the default (reasoning) model, but not its price.
+  const price = OPENAI_MODELS[model]?.price;
+
+  const openai = new OpenAI({
+    apiKey: openaiApiToken,
+    // Retries are handled for all providers in `getProvider`.
+    maxRetries: 0,
+  });
+
+  return {
+    model,
+    maxChars: getMaxChars(modelInfo),
+    parallel: true,
+    price,
+    validate: () => {
+      if (openaiApiToken === "") {
+        return "OpenAI Developer Account is required for this extension to work. You need to add your API token in preferences.";
+      }
+      if (!OPENAI_MODEL_REGEX.test(model)) {
+        return `"${model}" is not an OpenAI model. Please choose a GPT model in preferences.`;
+      }
+      return undefined;
+    },
+    complete: getOpenAICompletion(openai, model, modelInfo, parseFloat(creativity), true),
+  };
+};
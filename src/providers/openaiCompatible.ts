@@ -0,0 +1,36 @@
+import OpenAI from "openai";
+import { OPENAI_COMPATIBLE_MODEL_INFO } from "../const/models";
+import type { Preferences } from "../models/preferences";
+import { getMaxChars } from "../utils/getMaxChars";
+import { getOpenAICompletion } from "./openai";
+import type { SummaryProvider } from "./types";
+
+export const createOpenAICompatibleProvider = ({
+  creativity,
+  openaiCompatibleApiToken,
+  openaiCompatibleBaseUrl,
+  openaiCompatibleModel,
+}: Preferences): SummaryProvider => {
+  const openai = new OpenAI({
+    baseURL: openaiCompatibleBaseUrl,
+    // Local servers usually don't check the key, but the client refuses to start without one.
+    apiKey: openaiCompatibleApiToken || "not-needed",
+    // Retries are handled for all providers in `getProvider`.
+    maxRetries: 0,
+  });
+
+  return {
+    model: openaiCompatibleModel,
+    maxChars: getMaxChars(OPENAI_COMPATIBLE_MODEL_INFO),
+    // Local servers mostly handle one request at a time.
+    parallel: false,
+    validate: () => {
+      if (!openaiCompatibleBaseUrl)
+        return "You need to add the base URL of your OpenAI-compatible server in preferences.";
+      if (!openaiCompatibleModel)
+        return "You need to add the model name of your OpenAI-compatible server in preferences.";
+      return undefined;
+    },
+    complete: getOpenAICompletion(openai, openaiCompatibleModel, OPENAI_COMPATIBLE_MODEL_INFO, parseFloat(creativity)),
+  };
+};
@@ -0,0 +1,43 @@
+import { AI, environment } from "@raycast/api";
+import { DEFAULT_RAYCASTAI_MODEL, RAYCASTAI_MODELS } from "../const/models";
+import type { Preferences } from "../models/preferences";
+import { getMaxChars } from "../utils/getMaxChars";
+import type { ChatMessage, SummaryProvider } from "./types";
+
+// `AI.ask` only takes a single prompt, so earlier turns are passed along as a written conversation.
+const getPrompt = (messages: ChatMessage[]) =>
+  messages.length === 1
+    ? messages[0].content
+    : messages.map(({ role, content }) => `${role === "user" ? "User" : "Assistant"}: ${content}`).join("\n\n");
+
+export const createRaycastAIProvider = ({ creativity, customModel, model }: Preferences): SummaryProvider => {
+  const modelInfo = RAYCASTAI_MODELS[model] ?? RAYCASTAI_MODELS[DEFAULT_RAYCASTAI_MODEL];
+  // New models can be used before they are part of `AI.Model`.
+  const raycastModel = (customModel.trim() || modelInfo.model) as AI.Model;
+
+  return {
+    model: raycastModel,
+    maxChars: getMaxChars(modelInfo),
+    parallel: false,
+    validate: () => {
+      if (!environment.canAccess(AI)) {
+        return "Raycast AI is required for this extension to work. You need Raycast Pro.";
+      }
+      if (!customModel.trim() && !RAYCASTAI_MODELS[model]) {
+        return `"${model}" is not a Raycast AI model. Please choose a model in preferences.`;
+      }
+      return undefined;
+    },
+    complete: (messages, { signal, onText } = {}) => {
+      const answer = AI.ask(getPrompt(messages), {
+        creativity: parseFloat(creativity),
+        model: raycastModel,
+        signal,
+      });
+
+      if (onText) answer.on("data", onText);
+
+      return answer;
+    },
+  };
+};
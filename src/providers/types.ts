@@ -0,0 +1,32 @@
+import type { ModelPrice } from "../const/models";
+import type { TokenUsage } from "../models/usage";
+
+export type ChatMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type CompletionOptions = {
+  signal?: AbortSignal;
+  /** Called with every streamed chunk of the answer. */
+  onText?: (delta: string) => void;
+  /** Called before a failed request is sent again, with the number of the retry and the wait in milliseconds. */
+  onRetry?: (retry: number, delay: number) => void;
+  /** Called with the tokens the request used, if the provider reports them. */
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+export interface SummaryProvider {
+  /** ID of the model the provider sends its requests to. */
+  model: string;
+  /** Maximum transcript length in characters before the transcript is summarized in parts. */
+  maxChars: number;
+  /** Whether the parts of a long transcript can be summarized at the same time. */
+  parallel: boolean;
+  /** Price of the model, if it is paid per token. */
+  price?: ModelPrice;
+  /** Returns a message explaining what is missing in the preferences, if anything. */
+  validate: () => string | undefined;
+  /** Streams the answer to `messages` and resolves with the complete answer. */
+  complete: (messages: ChatMessage[], options?: CompletionOptions) => Promise<string>;
+}
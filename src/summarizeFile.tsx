@@ -0,0 +1,48 @@
+import { Action, ActionPanel, Form, getSelectedFinderItems, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import FileSummary from "./components/FileSummary";
+
+type SummarizeFileValues = {
+  files: string[];
+};
+
+export default function SummarizeFile() {
+  const [files, setFiles] = useState<string[]>([]);
+  const [filesError, setFilesError] = useState<string>();
+  const { push } = useNavigation();
+
+  useEffect(() => {
+    // Finder throws if it isn't the frontmost app, in which case the file is picked in the form.
+    getSelectedFinderItems()
+      .then((items) => setFiles(items.slice(0, 1).map((item) => item.path)))
+      .catch(() => undefined);
+  }, []);
+
+  const submit = ({ files }: SummarizeFileValues) => {
+    if (files.length === 0) return setFilesError("Pick a file to summarize");
+    push(<FileSummary path={files[0]} />);
+  };
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Summarize File" onSubmit={submit} />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="files"
+        title="File"
+        allowMultipleSelection={false}
+        value={files}
+        error={filesError}
+        onChange={(value) => {
+          setFiles(value);
+          setFilesError(undefined);
+        }}
+        info="A .srt, .vtt, .txt or .json transcript, or an audio or video recording if audio transcription is set up in preferences."
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,261 @@
+import nodeFetch from "node-fetch";
+(globalThis.fetch as typeof globalThis.fetch) = nodeFetch as never;
+
+import {
+  Action,
+  ActionPanel,
+  Color,
+  getPreferenceValues,
+  Icon,
+  List,
+  showToast,
+  Toast,
+  useNavigation,
+  type LaunchProps,
+} from "@raycast/api";
+import { useEffect, useRef, useState } from "react";
+import DigestDetail from "./components/DigestDetail";
+import SummaryDetail from "./components/SummaryDetail";
+import { ALERT } from "./const/toast_messages";
+import { useGetSummary } from "./hooks/useGetSummary";
+import type { CachedVideo } from "./models/history";
+import type { Preferences } from "./models/preferences";
+import { prepareTranscript } from "./utils/cleanTranscript";
+import { getPlaylistVideos, type PlaylistVideo } from "./utils/getPlaylistVideos";
+import { getTranscriptText } from "./utils/getTranscriptText";
+import { getVideoData, type VideoDataTypes } from "./utils/getVideoData";
+import { loadVideo } from "./utils/loadVideo";
+import { getCachedVideo } from "./utils/summaryHistory";
+
+const DIGEST_ITEM_ID = "digest";
+
+// Number of videos whose metadata is fetched at the same time.
+const METADATA_CONCURRENCY = 4;
+
+type PlaylistItemStatus = "idle" | "queued" | "summarizing" | "done" | "failed";
+
+type PlaylistItem = PlaylistVideo & {
+  selected: boolean;
+  status: PlaylistItemStatus;
+  videoData?: VideoDataTypes;
+  video?: CachedVideo;
+  summary?: string;
+};
+
+const STATUS_ACCESSORIES: Record<PlaylistItemStatus, List.Item.Accessory | undefined> = {
+  idle: undefined,
+  queued: { icon: Icon.Clock, tooltip: "Queued" },
+  summarizing: { icon: { source: Icon.CircleProgress50, tintColor: Color.Blue }, tooltip: "Summarizing" },
+  done: { icon: { source: Icon.CheckCircle, tintColor: Color.Green }, tooltip: "Summarized" },
+  failed: { icon: { source: Icon.XMarkCircle, tintColor: Color.Red }, tooltip: "Failed" },
+};
+
+interface SummarizePlaylistProps {
+  playlist: string;
+}
+
+export default function SummarizePlaylist(props: LaunchProps<{ arguments: SummarizePlaylistProps }>) {
+  const { playlist } = props.arguments;
+  const { transcriptLanguages, showTimestamps } = getPreferenceValues<Preferences>();
+  const { push } = useNavigation();
+  const [title, setTitle] = useState<string>();
+  const [items, setItems] = useState<PlaylistItem[]>();
+  const [progress, setProgress] = useState<{ current: number; total: number }>();
+  const [digestSummaries, setDigestSummaries] = useState<{ title: string; summary: string }[]>();
+  const [digest, setDigest] = useState<string>();
+  const abortControllerRef = useRef(new AbortController());
+
+  const updateItem = (videoId: string, update: Partial<PlaylistItem>) =>
+    setItems((previousItems) =>
+      previousItems?.map((item) => (item.videoId === videoId ? { ...item, ...update } : item)),
+    );
+
+  useEffect(() => {
+    const abortController = abortControllerRef.current;
+
+    getPlaylistVideos(playlist)
+      .then(async (result) => {
+        setTitle(result.title);
+        setItems(result.videos.map((video) => ({ ...video, selected: false, status: "idle" })));
+
+        const queue = [...result.videos];
+        const loadMetadata = async () => {
+          for (let video = queue.shift(); video && !abortController.signal.aborted; video = queue.shift()) {
+            const videoId = video.videoId;
+            const videoData = await getCachedVideo(videoId)
+              .then((cachedVideo) => cachedVideo?.videoData ?? getVideoData(videoId))
+              .catch(() => undefined);
+            updateItem(videoId, { videoData });
+          }
+        };
+        await Promise.all(Array.from({ length: METADATA_CONCURRENCY }, loadMetadata));
+      })
+      .catch((error) => {
+        setItems([]);
+        showToast({
+          style: Toast.Style.Failure,
+          title: ALERT.title,
+          message: "Error fetching videos: " + error.message,
+        });
+      });
+
+    return () => abortController.abort();
+  }, [playlist]);
+
+  const summarizeItem = async (item: PlaylistItem) => {
+    const { signal } = abortControllerRef.current;
+    updateItem(item.videoId, { status: "summarizing" });
+
+    try {
+      const video = await loadVideo(item.videoId, transcriptLanguages, signal);
+      updateItem(item.videoId, { video, videoData: video.videoData });
+
+      const { transcript } = await prepareTranscript(item.videoId, video.transcript, signal);
+      let summary: string | undefined;
+      await useGetSummary({
+        videoData: video.videoData,
+        transcript: getTranscriptText(transcript, showTimestamps),
+        setSummaryIsLoading: () => undefined,
+        setSummary: (value) => {
+          summary = typeof value === "function" ? value(summary) : value;
+          updateItem(item.videoId, { summary });
+        },
+        signal,
+      });
+
+      updateItem(item.videoId, { status: summary ? "done" : "failed" });
+      return summary ? { title: video.videoData.title, summary } : undefined;
+    } catch {
+      updateItem(item.videoId, { status: "failed" });
+      return undefined;
+    }
+  };
+
+  const summarizeSelected = async () => {
+    const selectedItems = items?.filter((item) => item.selected) ?? [];
+    if (selectedItems.length === 0) return;
+
+    selectedItems.forEach((item) => updateItem(item.videoId, { status: "queued" }));
+
+    const summaries: { title: string; summary: string }[] = [];
+    for (const [index, item] of selectedItems.entries()) {
+      if (abortControllerRef.current.signal.aborted) return;
+      setProgress({ current: index + 1, total: selectedItems.length });
+      const result = await summarizeItem(item);
+      if (result) summaries.push(result);
+    }
+    setProgress(undefined);
+    if (summaries.length === 0) return;
+
+    // The digest is created in its own view, so the view re-renders while the digest streams in.
+    setDigestSummaries(summaries);
+    setDigest(undefined);
+    push(getDigestDetail(summaries));
+  };
+
+  const getDigestDetail = (summaries: { title: string; summary: string }[], createdDigest?: string) => (
+    <DigestDetail title={title ?? playlist} summaries={summaries} digest={createdDigest} onDigest={setDigest} />
+  );
+
+  const setAllSelected = (selected: boolean) =>
+    setItems((previousItems) => previousItems?.map((item) => ({ ...item, selected })));
+
+  const selectedCount = items?.filter((item) => item.selected).length ?? 0;
+  const isSummarizing = progress !== undefined;
+
+  const navigationTitle = progress
+    ? `Summarizing ${progress.current} of ${progress.total}`
+    : `${title ?? "Playlist"}${selectedCount > 0 ? ` (${selectedCount} selected)` : ""}`;
+
+  const sharedActions = (
+    <>
+      {selectedCount > 0 && !isSummarizing && (
+        <Action
+          icon={Icon.Stars}
+          title={`Summarize ${selectedCount} ${selectedCount === 1 ? "Video" : "Videos"}`}
+          shortcut={{ modifiers: ["cmd"], key: "s" }}
+          onAction={summarizeSelected}
+        />
+      )}
+      <Action
+        icon={Icon.CheckCircle}
+        title="Select All Videos"
+        shortcut={{ modifiers: ["cmd"], key: "a" }}
+        onAction={() => setAllSelected(true)}
+      />
+      <Action
+        icon={Icon.Circle}
+        title="Deselect All Videos"
+        shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+        onAction={() => setAllSelected(false)}
+      />
+    </>
+  );
+
+  return (
+    <List
+      isLoading={items === undefined || isSummarizing}
+      navigationTitle={navigationTitle}
+      searchBarPlaceholder="Filter videos..."
+    >
+      {digestSummaries && (
+        <List.Section title="Digest">
+          <List.Item
+            id={DIGEST_ITEM_ID}
+            icon={Icon.Book}
+            title="Digest"
+            subtitle={title}
+            actions={
+              <ActionPanel>
+                <Action.Push icon={Icon.Book} title="Open Digest" target={getDigestDetail(digestSummaries, digest)} />
+                {digest !== undefined && <Action.CopyToClipboard title="Copy Digest" content={digest} />}
+              </ActionPanel>
+            }
+          />
+        </List.Section>
+      )}
+      <List.Section title="Videos" subtitle={items ? String(items.length) : undefined}>
+        {items?.map((item) => (
+          <List.Item
+            key={item.videoId}
+            icon={item.selected ? Icon.CheckCircle : Icon.Circle}
+            title={item.title}
+            subtitle={item.videoData?.ownerChannelName}
+            accessories={[
+              ...(item.videoData
+                ? [{ text: item.videoData.duration }, { text: `${item.videoData.viewCount} views` }]
+                : []),
+              ...(STATUS_ACCESSORIES[item.status] ? [STATUS_ACCESSORIES[item.status]!] : []),
+            ]}
+            actions={
+              <ActionPanel>
+                {item.summary && item.video && item.status === "done" && (
+                  <Action.Push
+                    icon={Icon.Document}
+                    title="Open Summary"
+                    target={
+                      <SummaryDetail
+                        summary={item.summary}
+                        summaryIsLoading={false}
+                        transcript={item.video.transcript}
+                        videoData={item.video.videoData}
+                      />
+                    }
+                  />
+                )}
+                <Action
+                  icon={item.selected ? Icon.Circle : Icon.CheckCircle}
+                  title={item.selected ? "Deselect Video" : "Select Video"}
+                  shortcut={{ modifiers: ["cmd"], key: "return" }}
+                  onAction={() => updateItem(item.videoId, { selected: !item.selected })}
+                />
+                {sharedActions}
+                <Action.OpenInBrowser title="Go to Video" url={`https://www.youtube.com/watch?v=${item.videoId}`} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
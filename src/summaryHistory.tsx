@@ -0,0 +1,119 @@
+import nodeFetch from "node-fetch";
+(globalThis.fetch as typeof globalThis.fetch) = nodeFetch as never;
+
+import { Action, ActionPanel, Alert, confirmAlert, Icon, List, showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import SummaryDetail from "./components/SummaryDetail";
+import UsageHistory from "./components/UsageHistory";
+import VideoSummary from "./components/VideoSummary";
+import type { CachedVideo, HistoryEntry } from "./models/history";
+import { filterTranscript } from "./utils/filterTranscript";
+import { clearHistory, getHistory, removeHistoryEntry } from "./utils/summaryHistory";
+import { formatTimeRange } from "./utils/timestamps";
+
+type HistoryItem = HistoryEntry & CachedVideo;
+
+export default function SummaryHistory() {
+  const [history, setHistory] = useState<HistoryItem[]>();
+
+  const loadHistory = () => getHistory().then(setHistory);
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const deleteEntry = async (entry: HistoryItem) => {
+    await removeHistoryEntry(entry);
+    await loadHistory();
+    showToast({ style: Toast.Style.Success, title: "Summary deleted" });
+  };
+
+  const deleteAllEntries = async () => {
+    const confirmed = await confirmAlert({
+      title: "Delete all summaries?",
+      message: "This removes every summary and cached transcript.",
+      primaryAction: { title: "Delete All", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    await clearHistory();
+    await loadHistory();
+  };
+
+  return (
+    <List isLoading={history === undefined} searchBarPlaceholder="Search by title or channel...">
+      <List.EmptyView
+        icon={Icon.Clock}
+        title="No summaries yet"
+        description="Summarized videos show up here."
+        actions={
+          <ActionPanel>
+            <Action.Push icon={Icon.Coins} title="Show Usage History" target={<UsageHistory />} />
+          </ActionPanel>
+        }
+      />
+      {history?.map((entry) => (
+        <List.Item
+          key={entry.key}
+          icon={{ source: entry.videoData.thumbnail?.url ?? Icon.Video }}
+          title={entry.videoData.title}
+          subtitle={entry.videoData.ownerChannelName}
+          keywords={[entry.videoData.ownerChannelName]}
+          accessories={[
+            ...(entry.range ? [{ icon: Icon.Clock, text: formatTimeRange(entry.range) }] : []),
+            { tag: entry.model },
+            { date: new Date(entry.createdAt) },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action.Push
+                icon={Icon.Document}
+                title="Open Summary"
+                target={
+                  <SummaryDetail
+                    summary={entry.summary}
+                    structuredSummary={entry.structuredSummary}
+                    summaryIsLoading={false}
+                    transcript={filterTranscript(entry.transcript, entry.range)}
+                    range={entry.range}
+                    usage={entry.usage}
+                    videoData={entry.videoData}
+                  />
+                }
+              />
+              <Action.Push
+                icon={Icon.Repeat}
+                title="Summarize Again"
+                target={
+                  <VideoSummary video={entry.videoId} templateId={entry.templateId} range={entry.range} skipCache />
+                }
+                onPop={loadHistory}
+              />
+              <Action.OpenInBrowser title="Go to Video" url={entry.videoData.video_url} />
+              <Action.Push
+                icon={Icon.Coins}
+                title="Show Usage History"
+                shortcut={{ modifiers: ["cmd"], key: "u" }}
+                target={<UsageHistory />}
+              />
+              <Action
+                icon={Icon.Trash}
+                title="Delete Summary"
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                onAction={() => deleteEntry(entry)}
+              />
+              <Action
+                icon={Icon.Trash}
+                title="Delete All Summaries"
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                onAction={deleteAllEntries}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,20 @@
+import type { Preferences } from "../models/preferences";
+import { createOpenAICompatibleTranscriber } from "./openaiCompatible";
+import type { TranscriptionBackend } from "./types";
+import { createWhisperCppTranscriber } from "./whisperCpp";
+
+const transcribers: Record<
+  Exclude<Preferences["transcriptionBackend"], "none">,
+  (preferences: Preferences) => TranscriptionBackend
+> = {
+  whispercpp: createWhisperCppTranscriber,
+  openaicompatible: createOpenAICompatibleTranscriber,
+};
+
+/**
+ * Returns the backend that transcribes the audio of videos without captions, if one is chosen.
+ */
+export function getTranscriber(preferences: Preferences): TranscriptionBackend | undefined {
+  if (preferences.transcriptionBackend === "none") return undefined;
+  return transcribers[preferences.transcriptionBackend]?.(preferences);
+}
@@ -0,0 +1,40 @@
+import { createReadStream } from "fs";
+import OpenAI from "openai";
+import type { Preferences } from "../models/preferences";
+import type { TranscriptionBackend } from "./types";
+
+export const createOpenAICompatibleTranscriber = ({
+  transcriptionApiToken,
+  transcriptionBaseUrl,
+  transcriptionModel,
+}: Preferences): TranscriptionBackend => {
+  const openai = new OpenAI({
+    baseURL: transcriptionBaseUrl,
+    // Local servers usually don't check the key, but the client refuses to start without one.
+    apiKey: transcriptionApiToken || "not-needed",
+  });
+
+  return {
+    name: transcriptionModel,
+    validate: () => {
+      if (!transcriptionBaseUrl) return "You need to add the base URL of your transcription server in preferences.";
+      if (!transcriptionModel) return "You need to add the model name of your transcription server in preferences.";
+      return undefined;
+    },
+    transcribe: async (audioPath, { signal } = {}) => {
+      const result = await openai.audio.transcriptions.create(
+        { file: createReadStream(audioPath), model: transcriptionModel, response_format: "verbose_json" },
+        { signal },
+      );
+
+      return {
+        segments: (result.segments ?? []).map((segment) => ({
+          text: segment.text.trim(),
+          offset: segment.start,
+          duration: segment.end - segment.start,
+        })),
+        language: result.language,
+      };
+    },
+  };
+};
@@ -0,0 +1,16 @@
+import type { Transcript } from "../models/transcript";
+
+export type TranscriptionOptions = {
+  signal?: AbortSignal;
+  /** Called with the share of the audio that is transcribed, from 0 to 1. */
+  onProgress?: (progress: number) => void;
+};
+
+export interface TranscriptionBackend {
+  /** Name of the backend, shown while transcribing and as name of the transcript. */
+  name: string;
+  /** Returns a message explaining what is missing in the preferences, if anything. */
+  validate: () => string | undefined;
+  /** Transcribes the audio file at `audioPath`. */
+  transcribe: (audioPath: string, options?: TranscriptionOptions) => Promise<Transcript>;
+}
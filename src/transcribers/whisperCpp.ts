@@ -0,0 +1,68 @@
+import { spawn } from "child_process";
+import { readFile } from "fs/promises";
+import type { Preferences } from "../models/preferences";
+import type { TranscriptionBackend } from "./types";
+
+type WhisperCppOutput = {
+  result?: { language?: string };
+  transcription: { offsets: { from: number; to: number }; text: string }[];
+};
+
+const PROGRESS_REGEX = /progress\s*=\s*(\d+)%/g;
+
+function run(command: string, args: string[], signal?: AbortSignal, onOutput?: (output: string) => void) {
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(command, args, { signal });
+    let errorOutput = "";
+
+    child.stderr.on("data", (data: Buffer) => {
+      const output = data.toString();
+      errorOutput = (errorOutput + output).slice(-1000);
+      onOutput?.(output);
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`${command} exited with code ${code}: ${errorOutput.trim().split("\n").pop()}`));
+    });
+  });
+}
+
+export const createWhisperCppTranscriber = ({
+  ffmpegPath,
+  whisperCppModel,
+  whisperCppPath,
+}: Preferences): TranscriptionBackend => ({
+  name: "whisper.cpp",
+  validate: () => {
+    if (!whisperCppPath) return "You need to add the path of the whisper.cpp binary in preferences.";
+    if (!whisperCppModel) return "You need to add the path of a whisper.cpp model in preferences.";
+    if (!ffmpegPath) return "You need to add the path of ffmpeg in preferences.";
+    return undefined;
+  },
+  transcribe: async (audioPath, { signal, onProgress } = {}) => {
+    // whisper.cpp only reads 16 kHz mono WAV files.
+    const wavPath = `${audioPath}.wav`;
+    await run(ffmpegPath, ["-y", "-i", audioPath, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wavPath], signal);
+
+    await run(
+      whisperCppPath,
+      ["-m", whisperCppModel, "-f", wavPath, "-l", "auto", "-oj", "-of", audioPath, "-pp"],
+      signal,
+      (output) => {
+        const progress = [...output.matchAll(PROGRESS_REGEX)].pop();
+        if (progress) onProgress?.(Number(progress[1]) / 100);
+      },
+    );
+
+    const output = JSON.parse(await readFile(`${audioPath}.json`, "utf-8")) as WhisperCppOutput;
+    return {
+      segments: output.transcription.map(({ offsets, text }) => ({
+        text: text.trim(),
+        offset: offsets.from / 1000,
+        duration: (offsets.to - offsets.from) / 1000,
+      })),
+      language: output.result?.language,
+    };
+  },
+});
@@ -0,0 +1,3 @@
+import UsageHistory from "./components/UsageHistory";
+
+export default UsageHistory;
@@ -0,0 +1,79 @@
+import type { Transcript, TranscriptRange } from "../models/transcript";
+import { getTranscriptText } from "./getTranscriptText";
+import type { VideoChapter } from "./getVideoData";
+import splitTranscript from "./splitTranscript";
+import { formatTimestamp, parseTimestamp } from "./timestamps";
+
+// Chapter lines start or end with their timestamp, e.g. `0:00 Intro`, `(1:23) - Setup` or `Setup 1:23`.
+const LEADING_TIMESTAMP_REGEX = /^[-•*▶►\s]*\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?\s*[-–—:|.]?\s*(.+)$/;
+const TRAILING_TIMESTAMP_REGEX = /^[-•*▶►\s]*(.+?)\s*[-–—:|]?\s*\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?$/;
+// YouTube only shows chapters if there are at least three.
+const MIN_CHAPTERS = 3;
+
+/**
+ * Parses chapters from the description of a video with the rules of YouTube: at least three timestamps in ascending
+ * order, the first one at `0:00`. Returns an empty list if the description has no valid chapters.
+ */
+export function parseDescriptionChapters(description: string): VideoChapter[] {
+  const chapters = description.split("\n").flatMap((line) => {
+    const leadingMatch = line.trim().match(LEADING_TIMESTAMP_REGEX);
+    if (leadingMatch) return [{ title: leadingMatch[2].trim(), start: parseTimestamp(leadingMatch[1]) }];
+
+    const trailingMatch = line.trim().match(TRAILING_TIMESTAMP_REGEX);
+    if (trailingMatch) return [{ title: trailingMatch[1].trim(), start: parseTimestamp(trailingMatch[2]) }];
+
+    return [];
+  });
+
+  const isValid =
+    chapters.length >= MIN_CHAPTERS &&
+    chapters[0].start === 0 &&
+    chapters.every((chapter, index) => index === 0 || chapter.start > chapters[index - 1].start);
+  return isValid ? chapters : [];
+}
+
+/**
+ * Formats the chapters as list for the prompt, leaving out chapters outside of `range`.
+ */
+export function formatChapterList(chapters: VideoChapter[], range?: TranscriptRange) {
+  return chapters
+    .filter((chapter, index) => {
+      const end = chapters[index + 1]?.start ?? Infinity;
+      return (
+        (range?.start === undefined || end > range.start) && (range?.end === undefined || chapter.start < range.end)
+      );
+    })
+    .map(({ title, start }) => `${formatTimestamp(start)} ${title}`)
+    .join("\n");
+}
+
+/**
+ * Splits the transcript into one text per chapter, each starting with the chapter title and start as heading. Chapters
+ * without transcript, e.g. outside of the summarized range, are left out.
+ */
+export function getChapterTexts(transcript: Transcript, chapters: VideoChapter[], withTimestamps = false) {
+  return chapters.flatMap(({ title, start }, index) => {
+    const end = chapters[index + 1]?.start ?? Infinity;
+    const segments = transcript.segments.filter(({ offset }) =>
+      // Segments before the first chapter belong to it.
+      index === 0 ? offset < end : offset >= start && offset < end,
+    );
+    if (segments.length === 0) return [];
+
+    return [`## ${title} [${formatTimestamp(start)}]\n\n${getTranscriptText({ segments }, withTimestamps)}`];
+  });
+}
+
+/**
+ * Packs consecutive chapters into blocks of at most `maxChars`. Chapters that are longer on their own are split.
+ */
+export function splitChapters(chapterTexts: string[], maxChars: number) {
+  return chapterTexts.reduce<string[]>((blocks, chapterText) => {
+    const lastBlock = blocks[blocks.length - 1];
+    if (chapterText.length > maxChars) return [...blocks, ...splitTranscript(chapterText, maxChars)];
+    if (lastBlock !== undefined && lastBlock.length + chapterText.length + 2 <= maxChars) {
+      return [...blocks.slice(0, -1), `${lastBlock}\n\n${chapterText}`];
+    }
+    return [...blocks, chapterText];
+  }, []);
+}
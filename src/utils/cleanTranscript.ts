@@ -0,0 +1,103 @@
+import { getPreferenceValues } from "@raycast/api";
+import type { Preferences } from "../models/preferences";
+import type { SponsorSegment, Transcript, TranscriptCleanup } from "../models/transcript";
+import { detectSponsorSegments, getSponsorBlockSegments } from "./sponsorSegments";
+
+// Sound descriptions of captions like [Music], [Applause] or ♪. Timestamps in brackets contain digits and are kept.
+const SOUND_MARKER_REGEX = /\[[^\]\d]*\]|\((?:music|applause|laughter|laughs|cheering|inaudible)\)|[♪♫]+/gi;
+// Only English fillers, as words like "um" mean something in other languages.
+const FILLER_WORD_REGEX = /\b(?:u+h+m*|u+m+|e+r+m+|h+m+|mhm)\b[,.]?/gi;
+// Rolling auto-generated captions repeat the previous line before adding new words.
+const MIN_REPEATED_CHARS = 15;
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/**
+ * Removes the sponsor segments, sound markers, filler words and repeated caption lines from the transcript.
+ * Segments that are empty afterwards are left out.
+ */
+export function cleanTranscript(transcript: Transcript, sponsorSegments: SponsorSegment[] = []) {
+  const removesFillers = !transcript.language || transcript.language.startsWith("en");
+  const segments: Transcript["segments"] = [];
+
+  transcript.segments.forEach((segment) => {
+    const segmentEnd = segment.offset + segment.duration;
+    const isSponsored = sponsorSegments.some(({ start, end }) => segment.offset < end && segmentEnd > start);
+    if (isSponsored) return;
+
+    let text = segment.text.replace(SOUND_MARKER_REGEX, " ");
+    if (removesFillers) text = text.replace(FILLER_WORD_REGEX, " ");
+    text = normalize(text);
+
+    const previousText = segments[segments.length - 1]?.text;
+    if (previousText && text.toLowerCase() === previousText.toLowerCase()) return;
+    if (previousText && previousText.length >= MIN_REPEATED_CHARS && text.startsWith(previousText)) {
+      text = text.slice(previousText.length).trim();
+    }
+
+    if (text) segments.push({ ...segment, text });
+  });
+
+  return { ...transcript, segments };
+}
+
+/**
+ * Cleans the transcript up for summarizing if the `cleanTranscript` preference is on. Sponsor reads are taken from
+ * SponsorBlock if it is set up and knows the video, or else detected by keywords.
+ */
+export async function prepareTranscript(
+  videoId: string,
+  transcript: Transcript,
+  signal?: AbortSignal,
+): Promise<{ transcript: Transcript; cleanup?: TranscriptCleanup }> {
+  const {
+    cleanTranscript: cleansTranscript,
+    sponsorBlockDatabase,
+    sponsorBlockUrl,
+  } = getPreferenceValues<Preferences>();
+  if (!cleansTranscript) return { transcript };
+
+  const sponsorBlockSegments = videoId
+    ? await getSponsorBlockSegments(videoId, { database: sponsorBlockDatabase, url: sponsorBlockUrl }, signal)
+    : undefined;
+  const sponsorSegments = sponsorBlockSegments ?? detectSponsorSegments(transcript);
+  const cleanedTranscript = cleanTranscript(transcript, sponsorSegments);
+
+  const getChars = ({ segments }: Transcript) => segments.reduce((total, { text }) => total + text.length, 0);
+  const totalChars = getChars(transcript);
+  // Only sponsor segments within the transcript count, as SponsorBlock knows them for the whole video.
+  const removedSponsorSegments = sponsorSegments.filter(({ start, end }) =>
+    transcript.segments.some(({ offset, duration }) => offset < end && offset + duration > start),
+  );
+
+  return {
+    transcript: cleanedTranscript,
+    cleanup: {
+      totalChars,
+      removedChars: Math.max(0, totalChars - getChars(cleanedTranscript)),
+      sponsorSegments: removedSponsorSegments.length,
+      sponsorSource: removedSponsorSegments.length ? (sponsorBlockSegments ? "sponsorBlock" : "keywords") : undefined,
+    },
+  };
+}
+
+/**
+ * Describes the preferences `prepareTranscript` cleans the transcript up with, to tell cached summaries apart.
+ */
+export function getTranscriptPreparation({ cleanTranscript, sponsorBlockDatabase, sponsorBlockUrl }: Preferences) {
+  if (!cleanTranscript) return "";
+  return JSON.stringify({ sponsorBlockDatabase, sponsorBlockUrl });
+}
+
+export function formatTranscriptCleanup({
+  totalChars,
+  removedChars,
+  sponsorSegments,
+  sponsorSource,
+}: TranscriptCleanup) {
+  const share = totalChars ? Math.round((removedChars / totalChars) * 100) : 0;
+  const sponsors = sponsorSegments
+    ? `, ${sponsorSegments} sponsor ${sponsorSegments === 1 ? "segment" : "segments"} (${sponsorSource === "sponsorBlock" ? "SponsorBlock" : "keywords"})`
+    : "";
+  return `${share}% of the text${sponsors}`;
+}
@@ -0,0 +1,151 @@
+import { mkdir, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { basename, extname, join } from "path";
+import type { Preferences } from "../models/preferences";
+import type { Transcript } from "../models/transcript";
+import type { VideoDataTypes } from "./getVideoData";
+import { getTranscriptText } from "./getTranscriptText";
+import { linkTimestamps } from "./timestamps";
+
+type ExportSummaryProps = {
+  summary: string;
+  videoData: VideoDataTypes;
+  transcript?: Transcript;
+  flavor: Preferences["exportFlavor"];
+  folder: string;
+  filenameTemplate: string;
+};
+
+const FILENAME_VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Characters that aren't allowed in file names on macOS or that Obsidian can't link to.
+const INVALID_FILENAME_CHARS_REGEX = /[/\\:*?"<>|#^[\]]/g;
+
+const yamlString = (value: string) => JSON.stringify(value);
+
+// Obsidian tags can't contain spaces.
+const toTag = (keyword: string) => keyword.trim().replace(/\s+/g, "-");
+
+const quote = (markdown: string) =>
+  markdown
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+
+function getFrontMatter({ videoData, flavor }: Pick<ExportSummaryProps, "videoData" | "flavor">) {
+  const { duration, keywords = [], ownerChannelName, publishedAt, title, video_url } = videoData;
+  const tags = flavor === "obsidian" ? keywords.map(toTag) : keywords;
+
+  return [
+    "---",
+    `title: ${yamlString(title)}`,
+    `channel: ${yamlString(flavor === "obsidian" ? `[[${ownerChannelName}]]` : ownerChannelName)}`,
+    publishedAt && `published: ${publishedAt}`,
+    `url: ${video_url}`,
+    `duration: ${yamlString(duration)}`,
+    tags.length > 0 ? `tags:\n${tags.map((tag) => `  - ${yamlString(tag)}`).join("\n")}` : "tags: []",
+    "---",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Notion doesn't read front matter on import, so the properties are written as a list instead.
+function getNotionProperties({ videoData }: Pick<ExportSummaryProps, "videoData">) {
+  const { duration, keywords = [], ownerChannelName, ownerProfileUrl, publishDate, video_url } = videoData;
+
+  return [
+    `- **Channel:** [${ownerChannelName}](${ownerProfileUrl})`,
+    `- **Published:** ${publishDate}`,
+    `- **Duration:** ${duration}`,
+    `- **URL:** ${video_url}`,
+    keywords.length > 0 && `- **Tags:** ${keywords.join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function getExportMarkdown({
+  summary,
+  videoData,
+  transcript,
+  flavor,
+}: Omit<ExportSummaryProps, "folder" | "filenameTemplate">) {
+  const { title, video_url } = videoData;
+  const summaryMarkdown = linkTimestamps(summary, video_url);
+  const transcriptMarkdown = transcript && linkTimestamps(getTranscriptText(transcript, true), video_url);
+
+  if (flavor === "obsidian") {
+    return [
+      getFrontMatter({ videoData, flavor }),
+      `# ${title}`,
+      `> [!summary] Summary\n${quote(summaryMarkdown)}`,
+      transcriptMarkdown && `> [!quote]- Transcript\n${quote(transcriptMarkdown.replaceAll("\n", "\n\n"))}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  return [
+    flavor === "markdown" && getFrontMatter({ videoData, flavor }),
+    `# ${title}`,
+    flavor === "notion" && getNotionProperties({ videoData }),
+    `## Summary\n\n${summaryMarkdown}`,
+    transcriptMarkdown && `## Transcript\n\n${transcriptMarkdown.replaceAll("\n", "\n\n")}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function getExportFilename(filenameTemplate: string, videoData: VideoDataTypes, extension = "md") {
+  const variables: Record<string, string> = {
+    title: videoData.title,
+    channel: videoData.ownerChannelName,
+    date: videoData.publishedAt ?? "",
+    videoId: videoData.videoId,
+  };
+
+  const filename = filenameTemplate
+    .replace(FILENAME_VARIABLE_REGEX, (variable, name: string) => variables[name] ?? variable)
+    .replace(INVALID_FILENAME_CHARS_REGEX, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return `${filename || videoData.videoId}.${extension}`;
+}
+
+/**
+ * Resolves `~` in the `exportFolder` preference, which defaults to the Downloads folder.
+ */
+function getExportFolder(folder: string) {
+  return folder.replace(/^~(?=$|\/)/, homedir()) || join(homedir(), "Downloads");
+}
+
+/**
+ * Writes `content` into a new file in the export folder and returns its path. Existing files, which may have been
+ * edited since, are never overwritten: the name gets a number like `Title 2.md` instead.
+ */
+export async function writeExportFile(folder: string, filename: string, content: string) {
+  const exportFolder = getExportFolder(folder);
+  const extension = extname(filename);
+  const name = basename(filename, extension);
+
+  await mkdir(exportFolder, { recursive: true });
+
+  for (let number = 1; ; number++) {
+    const path = join(exportFolder, number === 1 ? filename : `${name} ${number}${extension}`);
+    try {
+      await writeFile(path, content, { encoding: "utf8", flag: "wx" });
+      return path;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+  }
+}
+
+/**
+ * Writes the summary as a Markdown file into `folder` and returns the path of the file.
+ */
+export async function exportSummary({ folder, filenameTemplate, ...props }: ExportSummaryProps) {
+  return writeExportFile(folder, getExportFilename(filenameTemplate, props.videoData), getExportMarkdown(props));
+}
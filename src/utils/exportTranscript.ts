@@ -0,0 +1,57 @@
+import type { Transcript } from "../models/transcript";
+import { getExportFilename, writeExportFile } from "./exportSummary";
+import { getTranscriptText } from "./getTranscriptText";
+import type { VideoDataTypes } from "./getVideoData";
+
+export type TranscriptFormat = "txt" | "srt" | "vtt";
+
+type ExportTranscriptProps = {
+  transcript: Transcript;
+  format: TranscriptFormat;
+  videoData: VideoDataTypes;
+  folder: string;
+  filenameTemplate: string;
+};
+
+function formatCueTime(seconds: number, decimalSeparator: string) {
+  const milliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = String(Math.floor(milliseconds / 3_600_000)).padStart(2, "0");
+  const minutes = String(Math.floor((milliseconds % 3_600_000) / 60_000)).padStart(2, "0");
+  const remainingSeconds = String(Math.floor((milliseconds % 60_000) / 1000)).padStart(2, "0");
+  return `${hours}:${minutes}:${remainingSeconds}${decimalSeparator}${String(milliseconds % 1000).padStart(3, "0")}`;
+}
+
+const getCueTiming = ({ offset, duration }: Transcript["segments"][number], decimalSeparator: string) =>
+  `${formatCueTime(offset, decimalSeparator)} --> ${formatCueTime(offset + duration, decimalSeparator)}`;
+
+export function getTranscriptFile(transcript: Transcript, format: TranscriptFormat) {
+  const text = (segmentText: string) => segmentText.replaceAll("\n", " ").trim();
+
+  if (format === "srt") {
+    return transcript.segments
+      .map((segment, index) => `${index + 1}\n${getCueTiming(segment, ",")}\n${text(segment.text)}`)
+      .join("\n\n");
+  }
+  if (format === "vtt") {
+    const cues = transcript.segments.map((segment) => `${getCueTiming(segment, ".")}\n${text(segment.text)}`);
+    return ["WEBVTT", ...cues].join("\n\n");
+  }
+  return getTranscriptText(transcript, true);
+}
+
+/**
+ * Writes the transcript as `.txt`, `.srt` or `.vtt` file into `folder` and returns the path of the file.
+ */
+export async function exportTranscript({
+  transcript,
+  format,
+  videoData,
+  folder,
+  filenameTemplate,
+}: ExportTranscriptProps) {
+  return writeExportFile(
+    folder,
+    getExportFilename(filenameTemplate, videoData, format),
+    `${getTranscriptFile(transcript, format)}\n`,
+  );
+}
@@ -0,0 +1,16 @@
+import type { Transcript, TranscriptRange } from "../models/transcript";
+
+/**
+ * Keeps the segments of the transcript that overlap with `range`.
+ */
+export function filterTranscript(transcript: Transcript, range?: TranscriptRange): Transcript {
+  if (!range || (range.start === undefined && range.end === undefined)) return transcript;
+
+  const { start = 0, end = Infinity } = range;
+  return {
+    ...transcript,
+    segments: transcript.segments.filter(
+      (segment) => segment.offset + segment.duration > start && segment.offset < end,
+    ),
+  };
+}
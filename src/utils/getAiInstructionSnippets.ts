@@ -1,3 +1,11 @@
+import type { PromptTemplate, TemplateVariables } from "../models/template";
+import { renderTemplate } from "./promptTemplates";
+
+// Descriptions can be long lists of links and ads, only their start is sent.
+const MAX_DESCRIPTION_CHARS = 3000;
+
+const TIMESTAMP_INSTRUCTION = `The transcript lines start with timestamps like [1:23]. End every heading and list item with the timestamp in square brackets of the transcript line it is based on, for example [1:23]. Only use timestamps that appear in the transcript.`;
+
 export function getSummaryBlockSnippet(
   index: number,
   splitTranscripts: number,
@@ -7,27 +15,86 @@ export function getSummaryBlockSnippet(
   return `Summarize this transcription of a youtube video.
     The transcription is split into parts and this is part ${index} of ${splitTranscripts}.
     Be as concise as possible.
-    Do not use more then ${MAX_CHARS / splitTranscripts} characters.
+    Do not use more then ${Math.floor(MAX_CHARS / splitTranscripts)} characters.
+    If the transcription contains timestamps in square brackets, keep the timestamp of each key point.
+    If the transcription contains chapter headings, keep them and summarize every chapter under its heading.
     
     Here is the transcript: ${summaryBlock}`;
 }
 
-export function getAiInstructionSnippet(language: string, temporarySummary: string, transcript: string | undefined) {
-  return `summarize the key points from below text, presenting them under appropriate headings in simple words. Use various Emoji to symbolize different sections, and format the content as a cohesive paragraph under each heading. Retain important details and key points. Answer in ${language}.
+export function getAiInstructionSnippet(
+  template: PromptTemplate,
+  variables: TemplateVariables,
+  withTimestamps = false,
+  description?: string,
+) {
+  const instructions = [
+    // Structured summaries ask for timestamps in their own fields.
+    withTimestamps && template.format !== "json" && TIMESTAMP_INSTRUCTION,
+    renderTemplate(template, variables),
+    description && getDescriptionSnippet(description),
+  ];
+  return instructions.filter(Boolean).join("\n\n");
+}
+
+export function getDescriptionSnippet(description: string) {
+  return `Here is the description of the video as context. It can contain corrections, names and links, but also ads, which you should ignore: ${description.slice(0, MAX_DESCRIPTION_CHARS)}`;
+}
+
+export function getStructuredSummaryRepairSnippet(error: string) {
+  return `Your answer is not valid: ${error}. Answer again with only the corrected JSON object, no Markdown code fence and no explanation.`;
+}
+
+export function getFollowUpContextSnippet(transcript: string, withTimestamps = false) {
+  return `The following text is the content of a video. Refer to it as video. Summarize it for the person who will ask you questions about it afterwards. Ignore Sponsor Segments and Video Sponsors.${withTimestamps ? ` ${TIMESTAMP_INSTRUCTION}` : ""}
+  
+  Here is the transcript: ${transcript}`;
+}
+
+export function getFollowUpQuestionSnippet(question: string, withTimestamps = false) {
+  return `Answer the following question about the video with a list starting with a fitting emoji.${withTimestamps ? " End every list item with the timestamp in square brackets of the transcript line it is based on, for example [1:23]." : ""}
   
   Format:
 
-  [Emoji] [List Item] &nbsp;&nbsp;
+  [Emoji] [List Item]${withTimestamps ? " [Timestamp]" : ""} &nbsp;&nbsp;
   
-  Here is the transcript: ${temporarySummary.length > 0 ? temporarySummary : transcript}`;
+  This is the question: ${question}`;
 }
 
-export function getFollowUpQuestionSnippet(question: string, transcript: string) {
-  return `The following text is the content of a video. Refer to it as video. You already summarized it for the person asking a question. Answer with a list starting with a fitting emoji. Ignore Sponsor Segments and Video Sponsors.
+export function getRetrievalFollowUpContextSnippet(title: string) {
+  return `You answer questions about the video "${title}". The transcript is too long to send at once, so every question comes with the parts of the transcript that match it best. Refer to them as video. Ignore Sponsor Segments and Video Sponsors.`;
+}
+
+export function getRetrievalFollowUpQuestionSnippet(question: string, excerpts: string[]) {
+  return `Answer the following question about the video with a list starting with a fitting emoji. Base your answer on the excerpts of the transcript below and end every list item with the timestamp in square brackets of the transcript line it is based on, for example [1:23]. Only use timestamps that appear in the excerpts. If the excerpts don't answer the question, say so and answer from the summary where possible.
   
   Format:
 
-  [Emoji] [List Item] &nbsp;&nbsp;
+  [Emoji] [List Item] [Timestamp] &nbsp;&nbsp;
   
-  Here is the transcript: ${transcript}. This is the question: ${question}`;
+  This is the question: ${question}
+
+  ${excerpts.length ? `Here are the excerpts:\n\n${excerpts.join("\n\n[…]\n\n")}` : "No part of the transcript matches the question."}`;
+}
+
+export function getComparisonSnippet(
+  language: string,
+  videos: { title: string; channel: string; transcript: string }[],
+) {
+  return `Below are the transcripts of ${videos.length} videos about a similar subject, labeled V1 to V${videos.length}. Compare them with these Markdown sections, each heading starting with a fitting Emoji:
+
+  - "Agreement": points the videos agree on
+  - "Disagreement": points where they contradict each other or weigh things differently
+  - "Unique to Each Video": one subsection per video with what only that video covers
+  - "Recommendation": which video to watch for which purpose, and why
+
+  Attribute every claim to the video it comes from with its label and the timestamp of the transcript line in square brackets, for example [V1 1:23] or [V2 0:45]. If the transcript has no timestamps, use only the label, for example [V1]. Only use timestamps that appear in the transcripts. Answer in ${language}.
+
+  ${videos.map(({ title, channel, transcript }, index) => `V${index + 1}: "${title}" by ${channel}\n\n${transcript}`).join("\n\n")}`;
+}
+
+export function getDigestSnippet(language: string, summaries: string) {
+  return `Below are the summaries of several videos. Write a digest that groups their key points by theme instead of by video. Use a heading with a fitting Emoji for every theme and name the videos each point comes from in parentheses. End with a short paragraph about what the videos have in common. Answer in ${language}.
+
+  ${summaries}`;
 }
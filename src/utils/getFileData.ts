@@ -0,0 +1,34 @@
+import { formatDuration } from "date-fns";
+import { stat } from "fs/promises";
+import { basename, dirname, extname } from "path";
+import { pathToFileURL } from "url";
+import type { Transcript } from "../models/transcript";
+import type { VideoDataTypes } from "./getVideoData";
+
+/**
+ * Builds the metadata of a local file in the shape of `getVideoData`: the file name is the title, the folder is
+ * the channel and the modification date is the publish date. Files have no video ID, so their summaries aren't
+ * cached or added to the history.
+ */
+export async function getFileData(path: string, transcript: Transcript): Promise<VideoDataTypes> {
+  const { mtime } = await stat(path);
+
+  const lastSegment = transcript.segments.at(-1);
+  const lengthSeconds = lastSegment ? lastSegment.offset + lastSegment.duration : 0;
+  const hours = Math.floor(lengthSeconds / 3600);
+  const minutes = Math.floor((lengthSeconds % 3600) / 60);
+  const duration = formatDuration({ hours, minutes }, { format: ["hours", "minutes", "seconds"] });
+
+  return {
+    duration,
+    ownerChannelName: basename(dirname(path)),
+    ownerProfileUrl: pathToFileURL(dirname(path)).toString(),
+    publishDate: mtime.toLocaleDateString(),
+    publishedAt: mtime.toISOString().slice(0, 10),
+    keywords: [],
+    title: basename(path, extname(path)),
+    videoId: "",
+    video_url: pathToFileURL(path).toString(),
+    viewCount: "",
+  };
+}
@@ -0,0 +1,10 @@
+import type { ModelInfo } from "../const/models";
+
+export const CHARS_PER_TOKEN = 4;
+
+// Share of the input budget left for the transcript, the rest is kept for the instructions around it.
+const TRANSCRIPT_SHARE = 0.9;
+
+export function getMaxChars({ contextWindow, maxTokens }: ModelInfo) {
+  return Math.floor((contextWindow - maxTokens) * TRANSCRIPT_SHARE * CHARS_PER_TOKEN);
+}
@@ -0,0 +1,82 @@
+export type PlaylistVideo = {
+  videoId: string;
+  title: string;
+};
+
+export type Playlist = {
+  title: string;
+  videos: PlaylistVideo[];
+};
+
+const INITIAL_DATA_REGEX = /var ytInitialData = (\{.*?\});<\/script>/s;
+
+const VIDEO_RENDERERS = ["playlistVideoRenderer", "videoRenderer", "gridVideoRenderer"];
+
+type Renderer = {
+  videoId?: string;
+  title?: { simpleText?: string; runs?: { text: string }[] };
+};
+
+/**
+ * Turns a playlist URL, a channel URL or a channel handle like `@raycast` into the URL of the page listing its videos.
+ */
+export function getPlaylistPageUrl(reference: string) {
+  const trimmedReference = reference.trim();
+
+  if (trimmedReference.startsWith("@")) return `https://www.youtube.com/${trimmedReference}/videos`;
+  if (/^UC[\w-]{22}$/.test(trimmedReference)) return `https://www.youtube.com/channel/${trimmedReference}/videos`;
+  if (/^(PL|UU|OL|FL)[\w-]+$/.test(trimmedReference)) {
+    return `https://www.youtube.com/playlist?list=${trimmedReference}`;
+  }
+
+  const url = new URL(trimmedReference.startsWith("http") ? trimmedReference : `https://${trimmedReference}`);
+  const playlistId = url.searchParams.get("list");
+  if (playlistId) return `https://www.youtube.com/playlist?list=${playlistId}`;
+
+  const channelPath = url.pathname.match(/^\/(@[^/]+|channel\/[^/]+|c\/[^/]+|user\/[^/]+)/)?.[1];
+  if (channelPath) return `https://www.youtube.com/${channelPath}/videos`;
+
+  throw new Error("Please pass a playlist URL, a channel URL or a channel handle like @raycast.");
+}
+
+function findVideos(node: unknown, videos: Map<string, PlaylistVideo>) {
+  if (Array.isArray(node)) {
+    node.forEach((child) => findVideos(child, videos));
+    return;
+  }
+  if (typeof node !== "object" || node === null) return;
+
+  Object.entries(node).forEach(([key, value]) => {
+    const renderer = value as Renderer;
+    if (VIDEO_RENDERERS.includes(key) && renderer.videoId && !videos.has(renderer.videoId)) {
+      videos.set(renderer.videoId, {
+        videoId: renderer.videoId,
+        title: renderer.title?.simpleText ?? renderer.title?.runs?.map((run) => run.text).join("") ?? "",
+      });
+      return;
+    }
+    findVideos(value, videos);
+  });
+}
+
+/**
+ * Lists the videos of a playlist or channel as YouTube shows them on the first page.
+ */
+export async function getPlaylistVideos(reference: string): Promise<Playlist> {
+  const response = await fetch(getPlaylistPageUrl(reference), {
+    headers: { "Accept-Language": "en", "User-Agent": "Mozilla/5.0" },
+  });
+  if (!response.ok) throw new Error(`YouTube answered with ${response.status}`);
+
+  const initialData = (await response.text()).match(INITIAL_DATA_REGEX)?.[1];
+  if (!initialData) throw new Error("Couldn't find any videos on this page.");
+
+  const data = JSON.parse(initialData);
+  const videos = new Map<string, PlaylistVideo>();
+  findVideos(data.contents, videos);
+
+  return {
+    title: data.metadata?.playlistMetadataRenderer?.title ?? data.metadata?.channelMetadataRenderer?.title ?? reference,
+    videos: [...videos.values()],
+  };
+}
@@ -0,0 +1,61 @@
+import { showToast, Toast } from "@raycast/api";
+import { LONG_VIDEO } from "../const/toast_messages";
+import { splitChapters } from "./chapters";
+import { getSummaryBlockSnippet } from "./getAiInstructionSnippets";
+import splitTranscript from "./splitTranscript";
+
+type GetTemporarySummaryProps = {
+  transcript: string;
+  /** Texts of the chapters the transcript consists of, used as blocks instead of arbitrary parts. */
+  chapters?: string[];
+  maxChars: number;
+  parallel: boolean;
+  summarizeBlock: (prompt: string) => Promise<string>;
+};
+
+const getLongVideoMessage = (summarizedBlocks: number, totalBlocks: number) =>
+  `${LONG_VIDEO.message} Summarized part ${summarizedBlocks} of ${totalBlocks}.`;
+
+/**
+ * Summarizes transcripts that exceed `maxChars` block by block and joins the partial summaries.
+ * Progress is reported through the `LONG_VIDEO` toast.
+ * Returns an empty string when the transcript fits as is, so the final prompt falls back to the transcript.
+ */
+export async function getTemporarySummary({
+  transcript,
+  chapters,
+  maxChars,
+  parallel,
+  summarizeBlock,
+}: GetTemporarySummaryProps) {
+  if (transcript.length <= maxChars) return "";
+
+  const blocks = (chapters?.length ? splitChapters(chapters, maxChars) : splitTranscript(transcript, maxChars)).filter(
+    (block) => block.trim().length > 0,
+  );
+  let summarizedBlocks = 0;
+
+  const toast = await showToast({
+    style: Toast.Style.Animated,
+    title: LONG_VIDEO.title,
+    message: getLongVideoMessage(summarizedBlocks, blocks.length),
+  });
+
+  const summarize = async (block: string, index: number) => {
+    const blockSummary = await summarizeBlock(getSummaryBlockSnippet(index + 1, blocks.length, block, maxChars));
+    summarizedBlocks += 1;
+    toast.message = getLongVideoMessage(summarizedBlocks, blocks.length);
+    return blockSummary;
+  };
+
+  if (parallel) {
+    const blockSummaries = await Promise.all(blocks.map(summarize));
+    return blockSummaries.join("\n\n");
+  }
+
+  const blockSummaries: string[] = [];
+  for (const [index, block] of blocks.entries()) {
+    blockSummaries.push(await summarize(block, index));
+  }
+  return blockSummaries.join("\n\n");
+}
@@ -0,0 +1,28 @@
+import type { Transcript } from "../models/transcript";
+import { formatTimestamp } from "./timestamps";
+
+// Segments are only a few seconds long, so they are grouped into lines to keep the timestamp overhead low.
+const TIMESTAMPED_LINE_SECONDS = 30;
+
+export function getTranscriptText(transcript: Transcript, withTimestamps = false) {
+  if (!withTimestamps) {
+    return transcript.segments
+      .map((segment) => segment.text)
+      .join(" ")
+      .replaceAll("\n", " ");
+  }
+
+  const lines: { offset: number; texts: string[] }[] = [];
+  transcript.segments.forEach((segment) => {
+    const currentLine = lines[lines.length - 1];
+    if (currentLine && segment.offset - currentLine.offset < TIMESTAMPED_LINE_SECONDS) {
+      currentLine.texts.push(segment.text);
+    } else {
+      lines.push({ offset: segment.offset, texts: [segment.text] });
+    }
+  });
+
+  return lines
+    .map((line) => `[${formatTimestamp(line.offset)}] ${line.texts.join(" ").replaceAll("\n", " ")}`)
+    .join("\n");
+}
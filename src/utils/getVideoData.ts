@@ -1,17 +1,57 @@
 import { formatDuration } from "date-fns";
 import ytdl from "ytdl-core";
+import { parseDescriptionChapters } from "./chapters";
+
+export type VideoChapter = {
+  title: string;
+  /** Start of the chapter in seconds. */
+  start: number;
+};
+
+/** Whether the video is or was a live stream or premiere, missing for regular uploads. */
+export type LiveStatus = "live" | "upcoming" | "wasLive" | "premiere";
 
 export type VideoDataTypes = {
   duration: ytdl.videoInfo["videoDetails"]["lengthSeconds"];
   ownerChannelName: ytdl.videoInfo["videoDetails"]["ownerChannelName"];
   ownerProfileUrl: ytdl.videoInfo["videoDetails"]["ownerProfileUrl"];
   publishDate: ytdl.videoInfo["videoDetails"]["publishDate"];
-  thumbnail: ytdl.thumbnail;
+  /** Publish date as `YYYY-MM-DD`, missing in data cached by older versions. */
+  publishedAt?: ytdl.videoInfo["videoDetails"]["publishDate"];
+  keywords?: string[];
+  /** The fields up to `hasCaptions` are missing in data cached by older versions. */
+  description?: string;
+  category?: string;
+  likeCount?: string;
+  liveStatus?: LiveStatus;
+  hasCaptions?: boolean;
+  /** Chapters of the video, empty if it has none and missing in data cached by older versions. */
+  chapters?: VideoChapter[];
+  thumbnail?: ytdl.thumbnail;
   title: ytdl.videoInfo["videoDetails"]["title"];
+  videoId: ytdl.videoInfo["videoDetails"]["videoId"];
   video_url: ytdl.videoInfo["videoDetails"]["video_url"];
   viewCount: ytdl.videoInfo["videoDetails"]["viewCount"];
 };
 
+/**
+ * Returns the thumbnail with the highest resolution, as the list differs between videos.
+ */
+function getBestThumbnail(thumbnails: ytdl.thumbnail[]) {
+  return thumbnails.reduce<ytdl.thumbnail | undefined>(
+    (best, thumbnail) => (!best || thumbnail.width * thumbnail.height > best.width * best.height ? thumbnail : best),
+    undefined,
+  );
+}
+
+function getLiveStatus({ isLiveContent, liveBroadcastDetails }: ytdl.MoreVideoDetails): LiveStatus | undefined {
+  if (!liveBroadcastDetails) return undefined;
+  if (liveBroadcastDetails.isLiveNow) return "live";
+  if (new Date(liveBroadcastDetails.startTimestamp) > new Date()) return "upcoming";
+  // Premieres are broadcast like live streams, but of a video that was uploaded before.
+  return isLiveContent ? "wasLive" : "premiere";
+}
+
 export async function getVideoData(video: string) {
   const basicVideoInformation = await ytdl.getBasicInfo(video);
 
@@ -22,13 +62,28 @@ export async function getVideoData(video: string) {
   const minutes = Math.floor((Number(basicVideoInformation.videoDetails.lengthSeconds) % 3600) / 60);
   const duration = formatDuration({ hours, minutes }, { format: ["hours", "minutes", "seconds"] });
 
+  // Falls back to the description for videos whose chapters ytdl doesn't find in the player data.
+  const chapters = basicVideoInformation.videoDetails.chapters?.length
+    ? basicVideoInformation.videoDetails.chapters.map(({ title, start_time }) => ({ title, start: start_time }))
+    : parseDescriptionChapters(basicVideoInformation.videoDetails.description ?? "");
+
   const videoDetails = {
     duration,
     ownerChannelName: basicVideoInformation.videoDetails.ownerChannelName,
     ownerProfileUrl: basicVideoInformation.videoDetails.ownerProfileUrl,
     publishDate,
-    thumbnail: basicVideoInformation.videoDetails.thumbnails[4],
+    publishedAt: basicVideoInformation.videoDetails.publishDate.slice(0, 10),
+    keywords: basicVideoInformation.videoDetails.keywords ?? [],
+    description: basicVideoInformation.videoDetails.description ?? "",
+    category: basicVideoInformation.videoDetails.category,
+    likeCount: basicVideoInformation.videoDetails.likes?.toLocaleString(),
+    liveStatus: getLiveStatus(basicVideoInformation.videoDetails),
+    hasCaptions:
+      !!basicVideoInformation.player_response.captions?.playerCaptionsTracklistRenderer.captionTracks?.length,
+    chapters,
+    thumbnail: getBestThumbnail(basicVideoInformation.videoDetails.thumbnails),
     title: basicVideoInformation.videoDetails.title,
+    videoId: basicVideoInformation.videoDetails.videoId,
     video_url: basicVideoInformation.videoDetails.video_url,
     viewCount,
   };
@@ -1,25 +1,151 @@
-import { Toast, popToRoot, showToast } from "@raycast/api";
-import { YoutubeTranscript } from "youtube-transcript";
-
-export async function getVideoTranscript(video: string) {
-  const transcript = await YoutubeTranscript.fetchTranscript(video)
-    .then((result) => {
-      const joinedTranscription = result
-        .map((item) => item.text)
-        .join(" ")
-        .replaceAll("\n", " ");
-
-      return joinedTranscription;
-    })
-    .catch(() => {
-      showToast({
-        style: Toast.Style.Failure,
-        title: "❗",
-        message: "Sorry, this video doesn't have a transcript.",
-      });
-      popToRoot();
-      return undefined;
+import { Toast, getPreferenceValues, popToRoot, showToast } from "@raycast/api";
+import {
+  YoutubeTranscript,
+  YoutubeTranscriptDisabledError,
+  YoutubeTranscriptNotAvailableError,
+} from "youtube-transcript";
+import ytdl from "ytdl-core";
+import { ALERT, TRANSCRIBING_AUDIO } from "../const/toast_messages";
+import type { Preferences } from "../models/preferences";
+import type { Transcript } from "../models/transcript";
+import { getTranscriber } from "../transcribers/getTranscriber";
+import { selectCaptionTrack } from "./selectCaptionTrack";
+import { transcribeVideo } from "./transcribeVideo";
+import { validateProvider } from "./validateProvider";
+
+const TRANSCRIPT_XML_REGEX = /<text start="([^"]*)" dur="([^"]*)"[^>]*>([^<]*)<\/text>/g;
+
+const decodeHtmlEntities = (text: string) =>
+  text
+    .replaceAll("&amp;", "&")
+    .replaceAll("&quot;", '"')
+    .replaceAll("&#39;", "'")
+    .replaceAll("&lt;", "<")
+    .replaceAll("&gt;", ">");
+
+async function fetchCaptionTrack(
+  video: string,
+  preferredLanguages: string[],
+  signal?: AbortSignal,
+): Promise<Transcript | undefined> {
+  const basicVideoInformation = await ytdl.getBasicInfo(video);
+  const captionTracks =
+    basicVideoInformation.player_response.captions?.playerCaptionsTracklistRenderer.captionTracks ?? [];
+  const track = selectCaptionTrack(captionTracks, preferredLanguages);
+  if (!track) return undefined;
+
+  const response = await fetch(track.baseUrl, { signal });
+  if (!response.ok) return undefined;
+
+  const segments = [...(await response.text()).matchAll(TRANSCRIPT_XML_REGEX)].map((match) => ({
+    text: decodeHtmlEntities(match[3]),
+    offset: parseFloat(match[1]),
+    duration: parseFloat(match[2]),
+  }));
+  if (segments.length === 0) return undefined;
+
+  return {
+    segments,
+    language: String(track.languageCode),
+    trackName: String(track.name.simpleText),
+    isAutoGenerated: track.kind === "asr",
+  };
+}
+
+// Other errors, like network errors or rate limits, don't say anything about the captions of the video.
+const isNoCaptionsError = (error: unknown) =>
+  error instanceof YoutubeTranscriptDisabledError || error instanceof YoutubeTranscriptNotAvailableError;
+
+export const parseTranscriptLanguages = (transcriptLanguages: string) =>
+  transcriptLanguages
+    .split(",")
+    .map((language) => language.trim())
+    .filter(Boolean);
+
+/**
+ * Fetches the transcript from the caption track that fits `preferredLanguages` best.
+ * Falls back to `youtube-transcript` if the track list isn't available, trying the preferred languages in order
+ * before the first caption track it finds.
+ * Throws if the video has no transcript at all.
+ */
+export async function fetchVideoTranscript(
+  video: string,
+  preferredLanguages: string[] = [],
+  signal?: AbortSignal,
+): Promise<Transcript> {
+  const captionTrack = await fetchCaptionTrack(video, preferredLanguages, signal).catch(() => undefined);
+  if (captionTrack) return captionTrack;
+  signal?.throwIfAborted();
+
+  let result: Awaited<ReturnType<typeof YoutubeTranscript.fetchTranscript>> | undefined;
+  for (const lang of preferredLanguages) {
+    // Throws if the video has no captions in this language.
+    result = await YoutubeTranscript.fetchTranscript(video, { lang }).catch(() => undefined);
+    signal?.throwIfAborted();
+    if (result?.length) break;
+  }
+  if (!result?.length) result = await YoutubeTranscript.fetchTranscript(video);
+
+  return {
+    segments: result.map((item) => ({
+      text: decodeHtmlEntities(item.text),
+      offset: item.offset,
+      duration: item.duration,
+    })),
+    language: result[0]?.lang,
+  };
+}
+
+/**
+ * Transcribes the audio of videos without captions if a transcription backend is chosen in preferences.
+ * Throws if the captions can't be fetched for another reason than the video not having any.
+ */
+export async function getVideoTranscript(video: string, preferredLanguages: string[] = [], signal?: AbortSignal) {
+  const transcript = await fetchVideoTranscript(video, preferredLanguages, signal).catch((error) => {
+    if (isNoCaptionsError(error)) return undefined;
+    throw error;
+  });
+  if (transcript || signal?.aborted) return transcript;
+
+  const transcriber = getTranscriber(getPreferenceValues<Preferences>());
+  if (!transcriber) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: "❗",
+      message: "Sorry, this video doesn't have a transcript.",
     });
+    popToRoot();
+    return undefined;
+  }
+
+  if (!validateProvider(transcriber)) {
+    popToRoot();
+    return undefined;
+  }
 
-  return transcript;
+  const toast = await showToast({
+    style: Toast.Style.Animated,
+    title: TRANSCRIBING_AUDIO.title,
+    message: TRANSCRIBING_AUDIO.message,
+  });
+
+  try {
+    return await transcribeVideo(
+      video,
+      transcriber,
+      (message) => {
+        toast.message = message;
+      },
+      signal,
+    );
+  } catch (error) {
+    if (signal?.aborted) {
+      toast.hide();
+      return undefined;
+    }
+    toast.style = Toast.Style.Failure;
+    toast.title = ALERT.title;
+    toast.message = "Error transcribing audio: " + (error as Error).message;
+    return undefined;
+  }
 }
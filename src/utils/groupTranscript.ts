@@ -0,0 +1,53 @@
+import type { Transcript } from "../models/transcript";
+
+export type TranscriptParagraph = {
+  offset: number;
+  duration: number;
+  text: string;
+  /** Whether the paragraph likely starts with another speaker. */
+  speakerChange: boolean;
+};
+
+// Captions mark a new speaker with `>>` or `-`, transcripts of meetings often with `Name:`.
+const SPEAKER_MARKER_REGEX = /^(>>|-\s)\s*/;
+const SPEAKER_NAME_REGEX = /^[A-Z][\w.'-]*(?: [A-Z][\w.'-]*){0,2}:\s/;
+const SENTENCE_END_REGEX = /[.!?…]["')\]]?$/;
+
+// A pause this long usually ends a thought.
+const PARAGRAPH_PAUSE_SECONDS = 2;
+// Paragraphs are ended at the next sentence end once they are this long.
+const PARAGRAPH_MAX_CHARS = 600;
+
+/**
+ * Groups transcript segments into paragraphs. A paragraph ends when another speaker starts, after a long pause,
+ * or at the first sentence end once it is long enough.
+ */
+export function groupTranscript(transcript: Transcript): TranscriptParagraph[] {
+  const paragraphs: TranscriptParagraph[] = [];
+
+  transcript.segments.forEach((segment, index) => {
+    const rawText = segment.text.replaceAll("\n", " ").trim();
+    if (!rawText) return;
+
+    const speakerChange = SPEAKER_MARKER_REGEX.test(rawText) || SPEAKER_NAME_REGEX.test(rawText);
+    const text = rawText.replace(SPEAKER_MARKER_REGEX, "");
+    const previousSegment = transcript.segments[index - 1];
+    const pause = previousSegment ? segment.offset - (previousSegment.offset + previousSegment.duration) : 0;
+    const currentParagraph = paragraphs[paragraphs.length - 1];
+
+    const startsParagraph =
+      !currentParagraph ||
+      speakerChange ||
+      pause >= PARAGRAPH_PAUSE_SECONDS ||
+      (currentParagraph.text.length >= PARAGRAPH_MAX_CHARS && SENTENCE_END_REGEX.test(currentParagraph.text));
+
+    if (startsParagraph) {
+      paragraphs.push({ offset: segment.offset, duration: segment.duration, text, speakerChange });
+    } else {
+      currentParagraph.text = `${currentParagraph.text} ${text}`;
+      currentParagraph.duration = segment.offset + segment.duration - currentParagraph.offset;
+    }
+  });
+
+  return paragraphs;
+}
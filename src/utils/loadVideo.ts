@@ -0,0 +1,28 @@
+import ytdl from "ytdl-core";
+import type { CachedVideo } from "../models/history";
+import { getVideoData } from "./getVideoData";
+import { fetchVideoTranscript, parseTranscriptLanguages } from "./getVideoTranscript";
+import { cacheVideo, getCachedVideo } from "./summaryHistory";
+
+/**
+ * Returns the data and transcript of a video from the cache, or fetches and caches them.
+ * Throws if either of them can't be fetched.
+ */
+export async function loadVideo(
+  video: string,
+  transcriptLanguages: string,
+  signal?: AbortSignal,
+): Promise<CachedVideo> {
+  const videoId = ytdl.getVideoID(video);
+  const cachedVideo = await getCachedVideo(videoId);
+  if (cachedVideo && cachedVideo.transcriptLanguages === transcriptLanguages) return cachedVideo;
+
+  const [videoData, transcript] = await Promise.all([
+    getVideoData(video),
+    fetchVideoTranscript(video, parseTranscriptLanguages(transcriptLanguages), signal),
+  ]);
+  const loadedVideo = { videoData, transcript, transcriptLanguages };
+  await cacheVideo(videoId, loadedVideo);
+
+  return loadedVideo;
+}
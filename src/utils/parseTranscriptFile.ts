@@ -0,0 +1,104 @@
+import { extname } from "path";
+import type { Transcript, TranscriptSegment } from "../models/transcript";
+
+export const TRANSCRIPT_FILE_EXTENSIONS = [".srt", ".vtt", ".txt", ".json"];
+
+const CUE_TIMING_REGEX = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const TEXT_LINE_REGEX = /^\[?((?:\d+:)?\d{1,2}:\d{2})\]?\s*(.*)$/;
+const TAG_REGEX = /<[^>]+>/g;
+
+type JsonSegment = {
+  text?: string;
+  offset?: number;
+  start?: number;
+  duration?: number;
+  end?: number;
+  /** whisper.cpp writes its timings in milliseconds. */
+  offsets?: { from: number; to: number };
+};
+
+const parseCueTime = (time: string) =>
+  time
+    .replace(",", ".")
+    .split(":")
+    .reduce((seconds, part) => seconds * 60 + Number(part), 0);
+
+/**
+ * Parses the cues of SubRip (`.srt`) and WebVTT (`.vtt`) files, ignoring cue IDs, settings and styling tags.
+ */
+function parseCues(content: string): TranscriptSegment[] {
+  return content.split(/\r?\n\s*\r?\n/).flatMap((block) => {
+    const lines = block.split(/\r?\n/);
+    const timingIndex = lines.findIndex((line) => CUE_TIMING_REGEX.test(line.trim()));
+    if (timingIndex === -1) return [];
+
+    const [, start, end] = lines[timingIndex].trim().match(CUE_TIMING_REGEX) ?? [];
+    const text = lines
+      .slice(timingIndex + 1)
+      .join(" ")
+      .replace(TAG_REGEX, "")
+      .trim();
+    if (!text) return [];
+
+    const offset = parseCueTime(start);
+    return [{ text, offset, duration: parseCueTime(end) - offset }];
+  });
+}
+
+/**
+ * Parses plain text, optionally with `[1:23]` or `1:23` timestamps at the start of lines or on their own lines.
+ */
+function parseText(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let offset = 0;
+
+  for (const line of content.split(/\r?\n/).map((line) => line.trim())) {
+    const match = line.match(TEXT_LINE_REGEX);
+    const text = match ? match[2].trim() : line;
+    if (match) offset = parseCueTime(match[1]);
+    if (text) segments.push({ text, offset, duration: 0 });
+  }
+
+  // Lines without an end time last until the next line starts.
+  return segments.map((segment, index) => ({
+    ...segment,
+    duration: Math.max(0, (segments[index + 1]?.offset ?? segment.offset) - segment.offset),
+  }));
+}
+
+/**
+ * Parses an array of segments or an object with `segments` or `transcription`, as written by this extension,
+ * `youtube-transcript`, OpenAI's `verbose_json` and whisper.cpp.
+ */
+function parseJson(content: string): Transcript {
+  const json = JSON.parse(content);
+  const items: JsonSegment[] = Array.isArray(json) ? json : (json.segments ?? json.transcription ?? []);
+
+  const segments = items.flatMap((item) => {
+    const text = item.text?.trim();
+    if (!text) return [];
+
+    const offset = item.offsets ? item.offsets.from / 1000 : (item.offset ?? item.start ?? 0);
+    const end = item.offsets ? item.offsets.to / 1000 : item.end;
+    return [{ text, offset, duration: item.duration ?? (end !== undefined ? end - offset : 0) }];
+  });
+
+  return { segments, language: Array.isArray(json) ? undefined : (json.language ?? json.result?.language) };
+}
+
+/**
+ * Parses the content of a transcript file into a timed transcript based on the extension of `path`.
+ * Throws if the file type isn't supported or the file contains no text.
+ */
+export function parseTranscriptFile(path: string, content: string): Transcript {
+  const extension = extname(path).toLowerCase();
+
+  let transcript: Transcript;
+  if (extension === ".srt" || extension === ".vtt") transcript = { segments: parseCues(content) };
+  else if (extension === ".txt") transcript = { segments: parseText(content) };
+  else if (extension === ".json") transcript = parseJson(content);
+  else throw new Error(`${extension || "Files without extension"} isn't a supported transcript format.`);
+
+  if (transcript.segments.length === 0) throw new Error("The file doesn't contain any text.");
+  return transcript;
+}
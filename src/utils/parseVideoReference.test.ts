@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { parseStartTime, parseVideoReference } from "./parseVideoReference";
+
+const VIDEO_ID = "dQw4w9WgXcQ";
+
+describe("parseVideoReference", () => {
+  it.each([
+    ["a bare ID", VIDEO_ID],
+    ["a bare ID with whitespace", `  ${VIDEO_ID}\n`],
+    ["a watch URL", `https://www.youtube.com/watch?v=${VIDEO_ID}`],
+    ["a watch URL without protocol", `youtube.com/watch?v=${VIDEO_ID}`],
+    ["a mobile URL", `https://m.youtube.com/watch?v=${VIDEO_ID}`],
+    ["a YouTube Music URL", `https://music.youtube.com/watch?v=${VIDEO_ID}`],
+    ["a youtu.be URL", `https://youtu.be/${VIDEO_ID}`],
+    ["a Shorts URL", `https://www.youtube.com/shorts/${VIDEO_ID}`],
+    ["a live URL", `https://www.youtube.com/live/${VIDEO_ID}`],
+    ["an embed URL", `https://www.youtube.com/embed/${VIDEO_ID}`],
+    ["a nocookie embed URL", `https://www.youtube-nocookie.com/embed/${VIDEO_ID}`],
+  ])("finds the video ID in %s", (_, reference) => {
+    expect(parseVideoReference(reference)).toEqual({ videoId: VIDEO_ID });
+  });
+
+  it.each([
+    ["t= in seconds", `https://youtu.be/${VIDEO_ID}?t=90`, 90],
+    ["t= with units", `https://www.youtube.com/watch?v=${VIDEO_ID}&t=1h2m3s`, 3723],
+    ["start=", `https://www.youtube.com/embed/${VIDEO_ID}?start=42`, 42],
+    ["#t=", `https://www.youtube.com/watch?v=${VIDEO_ID}#t=1m30s`, 90],
+  ])("reads the start time from %s", (_, reference, startTime) => {
+    expect(parseVideoReference(reference)).toEqual({ videoId: VIDEO_ID, startTime });
+  });
+
+  it("leaves out a start time of zero", () => {
+    expect(parseVideoReference(`https://youtu.be/${VIDEO_ID}?t=0`)).toEqual({ videoId: VIDEO_ID });
+  });
+
+  it("reads the playlist from list=", () => {
+    expect(parseVideoReference(`https://www.youtube.com/watch?v=${VIDEO_ID}&list=PL1234567890&t=10`)).toEqual({
+      videoId: VIDEO_ID,
+      startTime: 10,
+      playlistId: "PL1234567890",
+    });
+  });
+
+  it.each([
+    ["an attribution link", `https://www.youtube.com/attribution_link?u=%2Fwatch%3Fv%3D${VIDEO_ID}`],
+    ["a non-YouTube host", `https://vimeo.com/watch?v=${VIDEO_ID}`],
+    ["a lookalike host", `https://youtube.com.example.org/watch?v=${VIDEO_ID}`],
+    ["a too short ID", "https://youtu.be/dQw4w9WgXc"],
+    ["a too long ID", `https://www.youtube.com/watch?v=${VIDEO_ID}x`],
+    ["a bare ID of the wrong length", "dQw4w9WgX"],
+    ["a watch URL without video", "https://www.youtube.com/watch?list=PL1234567890"],
+    ["a channel URL", "https://www.youtube.com/@somechannel"],
+    ["text that is no URL", "not a video"],
+  ])("rejects %s", (_, reference) => {
+    expect(parseVideoReference(reference)).toBeUndefined();
+  });
+});
+
+describe("parseStartTime", () => {
+  it.each([
+    ["90", 90],
+    ["90s", 90],
+    ["2m", 120],
+    ["1m30s", 90],
+    ["1h2m3s", 3723],
+    ["1:30", 90],
+    ["1:02:03", 3723],
+  ])("parses %s", (time, seconds) => {
+    expect(parseStartTime(time)).toBe(seconds);
+  });
+
+  it.each([null, "", "abc", "1:2:3:4", "1x"])("rejects %s", (time) => {
+    expect(parseStartTime(time)).toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { parseTimestamp } from "./timestamps";
+
+export type VideoReference = {
+  videoId: string;
+  /** Start time from a `t=` or `start=` parameter in seconds. */
+  startTime?: number;
+  playlistId?: string;
+};
+
+const VIDEO_ID_REGEX = /^[\w-]{11}$/;
+
+const YOUTUBE_HOSTS = ["youtube.com", "www.youtube.com", "m.youtube.com", "music.youtube.com", "gaming.youtube.com"];
+
+const EMBED_HOSTS = ["youtube-nocookie.com", "www.youtube-nocookie.com"];
+
+// Paths that carry the video ID as their second segment, e.g. `/shorts/<id>`.
+const ID_PATHS = ["shorts", "live", "embed", "v", "e"];
+
+/**
+ * Parses times like `90`, `90s`, `1m30s`, `1h2m3s` or `1:30` into seconds.
+ */
+export function parseStartTime(time: string | null) {
+  if (!time) return undefined;
+
+  if (/^\d+(:\d{1,2}){1,2}$/.test(time)) return parseTimestamp(time);
+
+  const match = time.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+  if (!match || match[0] === "") return undefined;
+
+  const [, hours = "0", minutes = "0", seconds = "0"] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+function getVideoId(url: URL) {
+  const host = url.hostname.toLowerCase();
+  const [firstSegment, secondSegment] = url.pathname.split("/").filter(Boolean);
+
+  if (host === "youtu.be") return firstSegment;
+
+  if (YOUTUBE_HOSTS.includes(host)) {
+    if (firstSegment === "watch") return url.searchParams.get("v") ?? undefined;
+    if (firstSegment && ID_PATHS.includes(firstSegment)) return secondSegment;
+  }
+
+  if (EMBED_HOSTS.includes(host) && firstSegment === "embed") return secondSegment;
+
+  return undefined;
+}
+
+/**
+ * Finds the video ID, start time and playlist in anything that points to a YouTube video:
+ * a plain video ID or a `watch`, `youtu.be`, Shorts, live, embed, mobile or YouTube Music URL.
+ */
+export function parseVideoReference(reference: string): VideoReference | undefined {
+  const trimmedReference = reference.trim();
+  if (VIDEO_ID_REGEX.test(trimmedReference)) return { videoId: trimmedReference };
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(trimmedReference) ? trimmedReference : `https://${trimmedReference}`);
+  } catch {
+    return undefined;
+  }
+
+  const videoId = getVideoId(url);
+  if (!videoId || !VIDEO_ID_REGEX.test(videoId)) return undefined;
+
+  const hashParams = new URLSearchParams(url.hash.slice(1));
+  const startTime = parseStartTime(
+    url.searchParams.get("t") ?? url.searchParams.get("start") ?? hashParams.get("t") ?? null,
+  );
+  const playlistId = url.searchParams.get("list") ?? undefined;
+
+  return {
+    videoId,
+    ...(startTime !== undefined && startTime > 0 && { startTime }),
+    ...(playlistId && { playlistId }),
+  };
+}
@@ -0,0 +1,54 @@
+import { LocalStorage } from "@raycast/api";
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID } from "../const/prompt_templates";
+import type { PromptTemplate, TemplateVariables } from "../models/template";
+
+const TEMPLATE_PREFIX = "template:";
+
+const TEMPLATE_VARIABLE_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+const TRANSCRIPT_VARIABLE_REGEX = /\{\{\s*transcript\s*\}\}/;
+
+export async function getCustomTemplates() {
+  const items = await LocalStorage.allItems<Record<string, string>>();
+  return Object.entries(items)
+    .filter(([key]) => key.startsWith(TEMPLATE_PREFIX))
+    .map(([, value]) => JSON.parse(value) as PromptTemplate)
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export async function getTemplates() {
+  return [...BUILT_IN_TEMPLATES, ...(await getCustomTemplates())];
+}
+
+/**
+ * Returns the template with `id`, or the default template if it doesn't exist (anymore).
+ */
+export async function getTemplate(id?: string) {
+  const templates = await getTemplates();
+  return (
+    templates.find((template) => template.id === id) ??
+    BUILT_IN_TEMPLATES.find((template) => template.id === DEFAULT_TEMPLATE_ID)!
+  );
+}
+
+export async function saveCustomTemplate(template: PromptTemplate) {
+  await LocalStorage.setItem(TEMPLATE_PREFIX + template.id, JSON.stringify(template));
+}
+
+export async function removeCustomTemplate(template: PromptTemplate) {
+  await LocalStorage.removeItem(TEMPLATE_PREFIX + template.id);
+}
+
+/**
+ * Replaces the variables in the prompt of `template`. Unknown variables are kept as they are.
+ * The transcript is appended if the prompt doesn't place it anywhere.
+ */
+export function renderTemplate(template: PromptTemplate, variables: TemplateVariables) {
+  const prompt = TRANSCRIPT_VARIABLE_REGEX.test(template.prompt)
+    ? template.prompt
+    : `${template.prompt}\n\n  Here is the transcript: {{transcript}}`;
+
+  return prompt.replace(TEMPLATE_VARIABLE_REGEX, (variable, name: string) =>
+    name in variables ? variables[name as keyof TemplateVariables] : variable,
+  );
+}
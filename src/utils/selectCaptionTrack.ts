@@ -0,0 +1,27 @@
+import type ytdl from "ytdl-core";
+
+const isAutoGenerated = (track: ytdl.captionTrack) => track.kind === "asr";
+
+const matchesLanguage = (track: ytdl.captionTrack, language: string) => {
+  const languageCode = String(track.languageCode).toLowerCase();
+  return languageCode === language.toLowerCase() || languageCode.startsWith(`${language.toLowerCase()}-`);
+};
+
+/**
+ * Picks the caption track to summarize. Manual captions in any of the preferred languages come first,
+ * then auto-generated ones in the preferred languages, each in the order of `preferredLanguages`.
+ * Without a match the first manual track of the video is used, then the first auto-generated one.
+ */
+export function selectCaptionTrack(captionTracks: ytdl.captionTrack[], preferredLanguages: string[]) {
+  const manualTracks = captionTracks.filter((track) => !isAutoGenerated(track));
+  const autoGeneratedTracks = captionTracks.filter(isAutoGenerated);
+
+  for (const tracks of [manualTracks, autoGeneratedTracks]) {
+    for (const language of preferredLanguages) {
+      const track = tracks.find((track) => matchesLanguage(track, language));
+      if (track) return track;
+    }
+  }
+
+  return manualTracks[0] ?? autoGeneratedTracks[0];
+}
@@ -0,0 +1,40 @@
+import { openExtensionPreferences, showToast, Toast } from "@raycast/api";
+import { ALERT } from "../const/toast_messages";
+import { classifyProviderError, type ProviderErrorKind } from "../providers/errors";
+
+const ERROR_MESSAGES: Record<Exclude<ProviderErrorKind, "unknown">, string> = {
+  invalidKey: "The AI provider rejected your API key. Please check it in preferences.",
+  quota: "Your AI provider account is out of quota or credits. Check your plan or choose another AI in preferences.",
+  rateLimit: "The AI provider is rate limiting your requests. Please wait a moment and try again.",
+  overloaded: "The AI provider is overloaded right now. Please try again in a moment.",
+  contextOverflow:
+    "The transcript is too long for this model. Please choose a model with a larger context window in preferences.",
+  network: "The AI provider couldn't be reached. Please check your connection or the server URL in preferences.",
+};
+
+const openPreferencesAction = { title: "Open Extension Preferences", onAction: () => openExtensionPreferences() };
+
+/**
+ * Explains what went wrong in a provider request and offers the action that most likely fixes it.
+ */
+export function showProviderErrorToast(error: unknown, onRetry?: () => void) {
+  const { kind, message } = classifyProviderError(error);
+  const retryAction = onRetry && { title: "Try Again", onAction: onRetry };
+
+  const actions: Record<ProviderErrorKind, Pick<Toast.Options, "primaryAction" | "secondaryAction">> = {
+    invalidKey: { primaryAction: openPreferencesAction },
+    quota: { primaryAction: openPreferencesAction },
+    contextOverflow: { primaryAction: openPreferencesAction },
+    rateLimit: { primaryAction: retryAction },
+    overloaded: { primaryAction: retryAction },
+    network: { primaryAction: retryAction, secondaryAction: openPreferencesAction },
+    unknown: { primaryAction: retryAction },
+  };
+
+  return showToast({
+    style: Toast.Style.Failure,
+    title: ALERT.title,
+    message: kind === "unknown" ? message : ERROR_MESSAGES[kind],
+    ...actions[kind],
+  });
+}
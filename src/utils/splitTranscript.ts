@@ -2,7 +2,7 @@ const splitTranscript = (transcript: string, max_chars: number) =>
   transcript?.split(/(?<=\.)/).reduce(
     (acc, curr) => {
       if (acc[acc.length - 1].length + curr.length > max_chars) {
-        const splitTranscription = curr.match(new RegExp(`.{1,${max_chars}}`, "g"));
+        const splitTranscription = curr.match(new RegExp(`[\\s\\S]{1,${max_chars}}`, "g"));
         splitTranscription?.forEach((split) => {
           acc.push(split);
         });
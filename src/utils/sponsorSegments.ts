@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { createInterface } from "readline";
+import type { SponsorSegment, Transcript } from "../models/transcript";
+
+// Sponsor reads, unpaid self promotion and reminders to like and subscribe.
+const SPONSOR_CATEGORIES = ["sponsor", "selfpromo", "interaction"];
+
+// Phrases that open a sponsor read, and phrases that are typical within one.
+const SPONSOR_OPENER_REGEX =
+  /\b(?:sponsored by|(?:today's|this video's) sponsor|sponsor(?:ing|s)? (?:of )?(?:this|today's) video|brought to you by|(?:thanks|thank you) to \S+(?: \S+)? for sponsoring|partnered with|a word from our sponsor)\b/i;
+const SPONSOR_PHRASE_REGEX =
+  /\b(?:promo code|discount code|use (?:the |my )?code|link in the description|link (?:is )?below|\d+ ?(?:%|percent) off|free trial|sign up|first \d+ (?:people|users|viewers)|check (?:them|it) out|exclusive (?:offer|deal)|sponsor(?:ed|s|ing)?)\b/i;
+// A sponsor read ends when no typical phrase follows for this long.
+const SPONSOR_GAP_SECONDS = 30;
+// Longer reads are more likely a video about the product than a sponsor read.
+const MAX_SPONSOR_SECONDS = 180;
+
+type SponsorBlockSegment = { segment: [number, number]; category: string; actionType?: string; videoID?: string };
+
+const toSponsorSegments = (segments: SponsorBlockSegment[]): SponsorSegment[] =>
+  segments
+    .filter(
+      ({ category, actionType }) =>
+        SPONSOR_CATEGORIES.includes(category) && (actionType === undefined || actionType === "skip"),
+    )
+    .map(({ segment: [start, end], category }) => ({ start, end, category }));
+
+/**
+ * Reads the segments of a video from `sponsorTimes.csv` of the SponsorBlock database dump, or from a JSON file that
+ * maps video IDs to segments in the format of the SponsorBlock API.
+ */
+async function readSponsorBlockDatabase(path: string, videoId: string): Promise<SponsorSegment[]> {
+  if (extname(path).toLowerCase() === ".json") {
+    const database = JSON.parse(await readFile(path, "utf-8")) as
+      | Record<string, SponsorBlockSegment[]>
+      | SponsorBlockSegment[];
+    const segments = Array.isArray(database)
+      ? database.filter((segment) => segment.videoID === videoId)
+      : (database[videoId] ?? []);
+    return toSponsorSegments(segments);
+  }
+
+  // The dump has several gigabytes, so it is searched line by line.
+  const lines = createInterface({ input: createReadStream(path, "utf-8"), crlfDelay: Infinity });
+  const segments: SponsorBlockSegment[] = [];
+  let columns: string[] | undefined;
+  for await (const line of lines) {
+    if (!columns) {
+      columns = line.split(",");
+      continue;
+    }
+    if (!line.startsWith(`${videoId},`)) continue;
+
+    const values = line.split(",");
+    const value = (column: string) => values[columns?.indexOf(column) ?? -1];
+    // Downvoted and hidden segments are not shown by SponsorBlock either.
+    if (Number(value("votes")) <= -2 || value("hidden") === "1" || value("shadowHidden") === "1") continue;
+
+    segments.push({
+      segment: [Number(value("startTime")), Number(value("endTime"))],
+      category: value("category"),
+      actionType: value("actionType"),
+    });
+  }
+  return toSponsorSegments(segments);
+}
+
+/**
+ * Looks up the segments of a video on a SponsorBlock server. Only the hash prefix of the video ID is sent, so the
+ * server doesn't learn which video is summarized.
+ */
+async function fetchSponsorBlockSegments(url: string, videoId: string, signal?: AbortSignal) {
+  const hashPrefix = createHash("sha256").update(videoId).digest("hex").slice(0, 4);
+  const requestUrl = new URL(`api/skipSegments/${hashPrefix}`, url.endsWith("/") ? url : `${url}/`);
+  requestUrl.searchParams.set("categories", JSON.stringify(SPONSOR_CATEGORIES));
+
+  const response = await fetch(requestUrl, { signal });
+  // SponsorBlock answers with 404 if no video with the hash prefix has segments.
+  if (response.status === 404) return [];
+  if (!response.ok) throw new Error(`SponsorBlock responded with ${response.status}`);
+
+  const videos = (await response.json()) as { videoID: string; segments: SponsorBlockSegment[] }[];
+  return toSponsorSegments(videos.find((video) => video.videoID === videoId)?.segments ?? []);
+}
+
+/**
+ * Returns the sponsor segments of a video from the local SponsorBlock database or, if the video isn't in there, the
+ * SponsorBlock server. Returns undefined if neither is set up or knows the video.
+ */
+export async function getSponsorBlockSegments(
+  videoId: string,
+  { database, url }: { database?: string; url?: string },
+  signal?: AbortSignal,
+) {
+  const sources: (() => Promise<SponsorSegment[]>)[] = [];
+  if (database) sources.push(() => readSponsorBlockDatabase(database, videoId));
+  if (url) sources.push(() => fetchSponsorBlockSegments(url, videoId, signal));
+
+  for (const source of sources) {
+    // SponsorBlock is optional, so summaries go on with the keyword detection if it fails.
+    const segments = await source().catch(() => []);
+    if (segments.length) return segments;
+  }
+  return undefined;
+}
+
+/**
+ * Detects sponsor reads by keywords. A read starts with a phrase like "sponsored by" and lasts as long as phrases
+ * typical for sponsor reads follow each other.
+ */
+export function detectSponsorSegments(transcript: Transcript): SponsorSegment[] {
+  const sponsorSegments: SponsorSegment[] = [];
+  const { segments } = transcript;
+  // Phrases can be split between two caption segments, but have to start in the segment they are matched for.
+  const matches = (regex: RegExp, index: number) => {
+    const match = regex.exec(`${segments[index].text} ${segments[index + 1]?.text ?? ""}`);
+    return !!match && match.index < segments[index].text.length;
+  };
+
+  for (let index = 0; index < segments.length; index++) {
+    if (!matches(SPONSOR_OPENER_REGEX, index)) continue;
+
+    const start = segments[index].offset;
+    let end = start + segments[index].duration;
+    for (let next = index + 1; next < segments.length && segments[next].offset - end <= SPONSOR_GAP_SECONDS; next++) {
+      if (segments[next].offset - start > MAX_SPONSOR_SECONDS) break;
+      if (matches(SPONSOR_PHRASE_REGEX, next) || matches(SPONSOR_OPENER_REGEX, next)) {
+        end = segments[next].offset + segments[next].duration;
+        index = next;
+      }
+    }
+    sponsorSegments.push({ start, end, category: "sponsor" });
+  }
+
+  return sponsorSegments;
+}
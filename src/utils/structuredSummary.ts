@@ -0,0 +1,134 @@
+import type { StructuredSummary } from "../models/structuredSummary";
+
+const JSON_FENCE_REGEX = /```(?:json)?\s*([\s\S]*?)```/;
+const TIMESTAMP_REGEX = /^(?:\d{1,2}:)?\d{1,2}:\d{2}$/;
+const ENTITY_TYPES = ["person", "organization", "product", "place", "other"];
+const SENTIMENTS = ["positive", "neutral", "negative", "mixed"];
+
+const SENTIMENT_EMOJIS: Record<StructuredSummary["sentiment"], string> = {
+  positive: "😊",
+  neutral: "😐",
+  negative: "😟",
+  mixed: "🤔",
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function getString(object: JsonObject, field: string, path: string) {
+  const value = object[field];
+  if (typeof value !== "string" || value.trim() === "") throw new Error(`"${path}" must be a non-empty string`);
+  return value.trim();
+}
+
+function getOptionalString(object: JsonObject, field: string, path: string) {
+  if (object[field] === undefined || object[field] === null || object[field] === "") return undefined;
+  return getString(object, field, path);
+}
+
+function getOptionalTimestamp(object: JsonObject, path: string) {
+  const timestamp = getOptionalString(object, "timestamp", `${path}.timestamp`)?.replace(/^\[|\]$/g, "");
+  if (timestamp !== undefined && !TIMESTAMP_REGEX.test(timestamp)) {
+    throw new Error(`"${path}.timestamp" must look like 1:23 or 1:02:03`);
+  }
+  return timestamp;
+}
+
+function getArray<T>(object: JsonObject, field: string, parseItem: (item: unknown, path: string) => T) {
+  const value = object[field] ?? [];
+  if (!Array.isArray(value)) throw new Error(`"${field}" must be an array`);
+  return value.map((item, index) => parseItem(item, `${field}[${index}]`));
+}
+
+function getItemObject(item: unknown, path: string) {
+  if (!isObject(item)) throw new Error(`"${path}" must be an object`);
+  return item;
+}
+
+function getItemString(item: unknown, path: string) {
+  if (typeof item !== "string" || item.trim() === "") throw new Error(`"${path}" must be a non-empty string`);
+  return item.trim();
+}
+
+/**
+ * Parses and validates the answer of a structured summary. Accepts JSON wrapped in a Markdown code fence.
+ * Throws an error describing the first problem, which is sent back to the model to correct it.
+ */
+export function parseStructuredSummary(answer: string): StructuredSummary {
+  const json = (answer.match(JSON_FENCE_REGEX)?.[1] ?? answer).trim();
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`it isn't valid JSON (${(error as Error).message})`);
+  }
+  if (!isObject(value)) throw new Error("it must be a JSON object");
+
+  const sentiment = getString(value, "sentiment", "sentiment").toLowerCase();
+  if (!SENTIMENTS.includes(sentiment)) throw new Error(`"sentiment" must be one of ${SENTIMENTS.join(", ")}`);
+
+  return {
+    tldr: getString(value, "tldr", "tldr"),
+    keyPoints: getArray(value, "keyPoints", (item, path) => {
+      const keyPoint = getItemObject(item, path);
+      const timestamp = getOptionalTimestamp(keyPoint, path);
+      return { text: getString(keyPoint, "text", `${path}.text`), ...(timestamp && { timestamp }) };
+    }),
+    topics: getArray(value, "topics", getItemString),
+    entities: getArray(value, "entities", (item, path) => {
+      const entity = getItemObject(item, path);
+      const type = getString(entity, "type", `${path}.type`).toLowerCase();
+      return {
+        name: getString(entity, "name", `${path}.name`),
+        type: (ENTITY_TYPES.includes(type) ? type : "other") as StructuredSummary["entities"][number]["type"],
+      };
+    }),
+    actionItems: getArray(value, "actionItems", getItemString),
+    quotes: getArray(value, "quotes", (item, path) => {
+      const quote = getItemObject(item, path);
+      const speaker = getOptionalString(quote, "speaker", `${path}.speaker`);
+      const timestamp = getOptionalTimestamp(quote, path);
+      return {
+        text: getString(quote, "text", `${path}.text`),
+        ...(speaker && { speaker }),
+        ...(timestamp && { timestamp }),
+      };
+    }),
+    sentiment: sentiment as StructuredSummary["sentiment"],
+  };
+}
+
+const withTimestamp = (text: string, timestamp?: string) => (timestamp ? `${text} [${timestamp}]` : text);
+
+/**
+ * Renders a structured summary as Markdown, with timestamps in square brackets so `linkTimestamps` can link them.
+ */
+export function getStructuredSummaryMarkdown(summary: StructuredSummary) {
+  const entitiesByType = ENTITY_TYPES.map((type) => ({
+    type,
+    names: summary.entities.filter((entity) => entity.type === type).map((entity) => entity.name),
+  })).filter(({ names }) => names.length > 0);
+
+  return [
+    `## 📝 TL;DR\n\n${summary.tldr}`,
+    summary.keyPoints.length > 0 &&
+      `## 🔑 Key Points\n\n${summary.keyPoints.map(({ text, timestamp }) => `- ${withTimestamp(text, timestamp)}`).join("\n")}`,
+    summary.actionItems.length > 0 &&
+      `## ✅ Action Items\n\n${summary.actionItems.map((item) => `- [ ] ${item}`).join("\n")}`,
+    summary.quotes.length > 0 &&
+      `## 💬 Quotes\n\n${summary.quotes
+        .map(({ text, speaker, timestamp }) => withTimestamp(`> ${text}${speaker ? ` — ${speaker}` : ""}`, timestamp))
+        .join("\n\n")}`,
+    summary.topics.length > 0 && `## 🏷️ Topics\n\n${summary.topics.map((topic) => `\`${topic}\``).join(" ")}`,
+    entitiesByType.length > 0 &&
+      `## 👥 Mentioned\n\n${entitiesByType
+        .map(({ type, names }) => `- **${type[0].toUpperCase()}${type.slice(1)}:** ${names.join(", ")}`)
+        .join("\n")}`,
+    `## ${SENTIMENT_EMOJIS[summary.sentiment]} Sentiment\n\n${summary.sentiment[0].toUpperCase()}${summary.sentiment.slice(1)}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
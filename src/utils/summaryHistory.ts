@@ -0,0 +1,104 @@
+import { LocalStorage } from "@raycast/api";
+import { createHash } from "crypto";
+import type { CachedVideo, HistoryEntry, SummaryCacheKeyProps } from "../models/history";
+import type { TranscriptIndex } from "../models/transcriptIndex";
+
+const VIDEO_PREFIX = "video:";
+const SUMMARY_PREFIX = "summary:";
+const INDEX_PREFIX = "index:";
+
+export function getSummaryCacheKey({
+  videoId,
+  chosenAi,
+  model,
+  language,
+  prompt,
+  transcriptPreparation,
+  range,
+}: SummaryCacheKeyProps) {
+  // Summaries of differently cleaned up transcripts differ as much as summaries of different prompts.
+  const promptHash = createHash("sha256").update(prompt).update(transcriptPreparation).digest("hex").slice(0, 12);
+  const key = [videoId, chosenAi, model, language, promptHash];
+  if (range) key.push(`${range.start ?? ""}-${range.end ?? ""}`);
+  return key.join("|");
+}
+
+export async function getCachedVideo(videoId: string) {
+  const cachedVideo = await LocalStorage.getItem<string>(VIDEO_PREFIX + videoId);
+  return cachedVideo ? (JSON.parse(cachedVideo) as CachedVideo) : undefined;
+}
+
+export async function cacheVideo(videoId: string, video: CachedVideo) {
+  await LocalStorage.setItem(VIDEO_PREFIX + videoId, JSON.stringify(video));
+}
+
+/**
+ * Transcript indexes are keyed by the video ID and a hash of the indexed transcript, which differs per range and
+ * language.
+ */
+export function getTranscriptIndexCacheKey(videoId: string, transcriptText: string) {
+  return [videoId, createHash("sha256").update(transcriptText).digest("hex").slice(0, 12)].join("|");
+}
+
+export async function getCachedTranscriptIndex(key: string) {
+  const index = await LocalStorage.getItem<string>(INDEX_PREFIX + key);
+  return index ? (JSON.parse(index) as TranscriptIndex) : undefined;
+}
+
+export async function cacheTranscriptIndex(key: string, index: TranscriptIndex) {
+  await LocalStorage.setItem(INDEX_PREFIX + key, JSON.stringify(index));
+}
+
+export async function getHistoryEntry(key: string) {
+  const entry = await LocalStorage.getItem<string>(SUMMARY_PREFIX + key);
+  return entry ? (JSON.parse(entry) as HistoryEntry) : undefined;
+}
+
+export async function saveHistoryEntry(entry: HistoryEntry) {
+  await LocalStorage.setItem(SUMMARY_PREFIX + entry.key, JSON.stringify(entry));
+}
+
+/**
+ * Returns all summaries, newest first, together with the cached video they belong to.
+ */
+export async function getHistory() {
+  const items = await LocalStorage.allItems<Record<string, string>>();
+  const entries = Object.entries(items)
+    .filter(([key]) => key.startsWith(SUMMARY_PREFIX))
+    .map(([, value]) => JSON.parse(value) as HistoryEntry)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return entries.flatMap((entry) => {
+    const cachedVideo = items[VIDEO_PREFIX + entry.videoId];
+    return cachedVideo ? [{ ...entry, ...(JSON.parse(cachedVideo) as CachedVideo) }] : [];
+  });
+}
+
+/**
+ * Removes a summary and, once no other summary of the same video is left, the cached video as well.
+ */
+export async function removeHistoryEntry(entry: HistoryEntry) {
+  await LocalStorage.removeItem(SUMMARY_PREFIX + entry.key);
+
+  const items = await LocalStorage.allItems<Record<string, string>>();
+  const videoIsStillUsed = Object.entries(items).some(
+    ([key, value]) => key.startsWith(SUMMARY_PREFIX) && (JSON.parse(value) as HistoryEntry).videoId === entry.videoId,
+  );
+  if (!videoIsStillUsed) {
+    await Promise.all(
+      [
+        VIDEO_PREFIX + entry.videoId,
+        ...Object.keys(items).filter((key) => key.startsWith(`${INDEX_PREFIX}${entry.videoId}|`)),
+      ].map((key) => LocalStorage.removeItem(key)),
+    );
+  }
+}
+
+export async function clearHistory() {
+  const items = await LocalStorage.allItems<Record<string, string>>();
+  await Promise.all(
+    Object.keys(items)
+      .filter((key) => [SUMMARY_PREFIX, VIDEO_PREFIX, INDEX_PREFIX].some((prefix) => key.startsWith(prefix)))
+      .map((key) => LocalStorage.removeItem(key)),
+  );
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { parseTimeRange } from "./timestamps";
+
+describe("parseTimeRange", () => {
+  it.each([
+    ["1:02:00-1:45:30", { start: 3720, end: 6330 }],
+    ["45:00-", { start: 2700 }],
+    ["-10:00", { end: 600 }],
+    ["90-120", { start: 90, end: 120 }],
+    ["1:5-2:00", { start: 65, end: 120 }],
+  ])("parses %s", (range, parsedRange) => {
+    expect(parseTimeRange(range)).toEqual(parsedRange);
+  });
+
+  it.each(["", "-", "1:99", "1:60-2:00", "1:00:60-", "1:00-2:00-3:00", "2:00-1:00", "abc-"])("rejects %s", (range) => {
+    expect(parseTimeRange(range)).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+import type { TranscriptRange } from "../models/transcript";
+
+const TIMESTAMP_REGEX = /\[((?:\d{1,2}:)?\d{1,2}:\d{2})\](?!\()/g;
+const VIDEO_TIMESTAMP_REGEX = /\[V(\d+)(?: ((?:\d{1,2}:)?\d{1,2}:\d{2}))?\](?!\()/g;
+// Minutes and seconds after the first field have to be below 60.
+const RANGE_TIMESTAMP_REGEX = /^\d+(:[0-5]?\d){0,2}$/;
+
+export function formatTimestamp(seconds: number) {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const remainingSeconds = String(totalSeconds % 60).padStart(2, "0");
+
+  if (hours > 0) return `${hours}:${String(minutes).padStart(2, "0")}:${remainingSeconds}`;
+  return `${minutes}:${remainingSeconds}`;
+}
+
+export function parseTimestamp(timestamp: string) {
+  return timestamp.split(":").reduce((seconds, part) => seconds * 60 + Number(part), 0);
+}
+
+/**
+ * Parses ranges like `1:02:00-1:45:30`, `45:00-` or `-10:00` into seconds. Returns `undefined` if the range is invalid.
+ */
+export function parseTimeRange(range: string): TranscriptRange | undefined {
+  const [start = "", end = "", ...rest] = range.split("-").map((part) => part.trim());
+  if (rest.length > 0 || (!start && !end)) return undefined;
+  if ((start && !RANGE_TIMESTAMP_REGEX.test(start)) || (end && !RANGE_TIMESTAMP_REGEX.test(end))) return undefined;
+
+  const parsedRange = {
+    ...(start && { start: parseTimestamp(start) }),
+    ...(end && { end: parseTimestamp(end) }),
+  };
+  if (parsedRange.start !== undefined && parsedRange.end !== undefined && parsedRange.start >= parsedRange.end) {
+    return undefined;
+  }
+  return parsedRange;
+}
+
+export function formatTimeRange({ start, end }: TranscriptRange) {
+  return `${formatTimestamp(start ?? 0)} – ${end !== undefined ? formatTimestamp(end) : "End"}`;
+}
+
+export function getTimestampUrl(videoUrl: string, seconds: number) {
+  const url = new URL(videoUrl);
+  url.searchParams.set("t", `${Math.floor(seconds)}s`);
+  return url.toString();
+}
+
+/**
+ * Turns timestamps like `[1:23]` or `[1:02:03]` in the summary into links that open the video at that moment.
+ */
+export function linkTimestamps(markdown: string, videoUrl: string) {
+  return markdown.replace(
+    TIMESTAMP_REGEX,
+    (_, timestamp: string) => `[${timestamp}](${getTimestampUrl(videoUrl, parseTimestamp(timestamp))})`,
+  );
+}
+
+/**
+ * Turns citations like `[V2 1:23]` or `[V2]` into links that open the second of `videoUrls`, at that moment if given.
+ */
+export function linkVideoTimestamps(markdown: string, videoUrls: string[]) {
+  return markdown.replace(VIDEO_TIMESTAMP_REGEX, (citation: string, index: string, timestamp?: string) => {
+    const videoUrl = videoUrls[Number(index) - 1];
+    if (!videoUrl) return citation;
+    return `[${citation.slice(1, -1)}](${timestamp ? getTimestampUrl(videoUrl, parseTimestamp(timestamp)) : videoUrl})`;
+  });
+}
@@ -0,0 +1,89 @@
+import { createWriteStream } from "fs";
+import { mkdtemp, rm, symlink } from "fs/promises";
+import { tmpdir } from "os";
+import { extname, join } from "path";
+import { pipeline } from "stream/promises";
+import ytdl from "ytdl-core";
+import type { Transcript } from "../models/transcript";
+import type { TranscriptionBackend } from "../transcribers/types";
+
+async function downloadAudio(
+  video: string,
+  folder: string,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal,
+) {
+  const info = await ytdl.getInfo(video);
+  // The smallest audio stream is plenty for speech and keeps uploads below API size limits.
+  const format = ytdl.chooseFormat(info.formats, { quality: "lowestaudio", filter: "audioonly" });
+  const audioPath = join(folder, `audio.${format.container}`);
+
+  const stream = ytdl.downloadFromInfo(info, { format });
+  stream.on("progress", (_, downloaded: number, total: number) => onProgress(downloaded / total));
+  await pipeline(stream, createWriteStream(audioPath), { signal });
+
+  return audioPath;
+}
+
+async function transcribeAudio(
+  audioPath: string,
+  transcriber: TranscriptionBackend,
+  onProgress: (message: string) => void,
+  signal?: AbortSignal,
+): Promise<Transcript> {
+  onProgress(`Transcribing audio with ${transcriber.name}`);
+  const transcript = await transcriber.transcribe(audioPath, {
+    signal,
+    onProgress: (progress) => onProgress(`Transcribing audio with ${transcriber.name} ${Math.round(progress * 100)}%`),
+  });
+  if (transcript.segments.length === 0) throw new Error("No speech found in the audio.");
+
+  return { ...transcript, trackName: `Transcribed with ${transcriber.name}`, isAutoGenerated: true };
+}
+
+/**
+ * Downloads the audio of a video into a temporary folder and transcribes it with `transcriber`.
+ * `onProgress` is called with a message describing the current step.
+ */
+export async function transcribeVideo(
+  video: string,
+  transcriber: TranscriptionBackend,
+  onProgress: (message: string) => void,
+  signal?: AbortSignal,
+): Promise<Transcript> {
+  const folder = await mkdtemp(join(tmpdir(), "youtube-audio-"));
+
+  try {
+    onProgress("Downloading audio");
+    const audioPath = await downloadAudio(
+      video,
+      folder,
+      (progress) => onProgress(`Downloading audio ${Math.round(progress * 100)}%`),
+      signal,
+    );
+    return await transcribeAudio(audioPath, transcriber, onProgress, signal);
+  } finally {
+    await rm(folder, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Transcribes a local audio or video file with `transcriber`.
+ */
+export async function transcribeFile(
+  path: string,
+  transcriber: TranscriptionBackend,
+  onProgress: (message: string) => void,
+  signal?: AbortSignal,
+): Promise<Transcript> {
+  const folder = await mkdtemp(join(tmpdir(), "youtube-audio-"));
+
+  try {
+    // Backends write their intermediate files next to the audio, so it's linked into the temporary folder.
+    const audioPath = join(folder, `audio${extname(path)}`);
+    await symlink(path, audioPath);
+    return await transcribeAudio(audioPath, transcriber, onProgress, signal);
+  } finally {
+    await rm(folder, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,126 @@
+import type { Transcript } from "../models/transcript";
+import type { TranscriptIndex, TranscriptIndexChunk } from "../models/transcriptIndex";
+import { getTranscriptText } from "./getTranscriptText";
+import { cacheTranscriptIndex, getCachedTranscriptIndex, getTranscriptIndexCacheKey } from "./summaryHistory";
+
+// Cached indexes of an older version are rebuilt.
+const INDEX_VERSION = 1;
+// Chunks end at the first segment after this many characters, about half a minute of speech.
+const CHUNK_CHARS = 600;
+
+// Standard BM25 parameters for term frequency saturation and length normalization.
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be but by do does did for from has have he her his how i if in is it its me my no not of on " +
+    "or our she so that the their them then there these they this to was we were what when where which who why will " +
+    "with you your"
+  ).split(" "),
+);
+
+export function tokenize(text: string) {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+export function buildTranscriptIndex(transcript: Transcript): TranscriptIndex {
+  const chunks: TranscriptIndexChunk[] = [];
+  const chunkFrequencies: Record<string, number> = {};
+
+  let start = 0;
+  let chars = 0;
+  transcript.segments.forEach((segment, index) => {
+    chars += segment.text.length;
+    if (chars < CHUNK_CHARS && index < transcript.segments.length - 1) return;
+
+    const terms: Record<string, number> = {};
+    const chunkTerms = tokenize(
+      transcript.segments
+        .slice(start, index + 1)
+        .map(({ text }) => text)
+        .join(" "),
+    );
+    chunkTerms.forEach((term) => (terms[term] = (terms[term] ?? 0) + 1));
+    Object.keys(terms).forEach((term) => (chunkFrequencies[term] = (chunkFrequencies[term] ?? 0) + 1));
+
+    chunks.push({ start, end: index + 1, length: chunkTerms.length, terms });
+    start = index + 1;
+    chars = 0;
+  });
+
+  const averageLength = chunks.reduce((total, chunk) => total + chunk.length, 0) / (chunks.length || 1);
+  return { version: INDEX_VERSION, chunks, chunkFrequencies, averageLength };
+}
+
+/**
+ * Returns the chunks that match `query`, best match first. Chunks without any term of the query are left out.
+ */
+export function searchTranscriptIndex(index: TranscriptIndex, query: string) {
+  const queryTerms = [...new Set(tokenize(query))];
+  const { chunks, chunkFrequencies, averageLength } = index;
+
+  return chunks
+    .map((chunk) => {
+      const score = queryTerms.reduce((total, term) => {
+        const frequency = chunk.terms[term];
+        if (!frequency) return total;
+
+        const chunksWithTerm = chunkFrequencies[term];
+        const inverseFrequency = Math.log(1 + (chunks.length - chunksWithTerm + 0.5) / (chunksWithTerm + 0.5));
+        const lengthNorm = 1 - B + (B * chunk.length) / (averageLength || 1);
+        return total + (inverseFrequency * frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+      }, 0);
+      return { chunk, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ chunk }) => chunk);
+}
+
+/**
+ * Loads the index of the transcript from the cache, or builds and caches it. Transcripts without video, like local
+ * files, are indexed without caching.
+ */
+export async function getTranscriptIndex(videoId: string, transcript: Transcript) {
+  if (!videoId) return buildTranscriptIndex(transcript);
+
+  const key = getTranscriptIndexCacheKey(videoId, getTranscriptText(transcript));
+  const cachedIndex = await getCachedTranscriptIndex(key);
+  if (cachedIndex?.version === INDEX_VERSION) return cachedIndex;
+
+  const index = buildTranscriptIndex(transcript);
+  await cacheTranscriptIndex(key, index);
+  return index;
+}
+
+/**
+ * Returns the timestamped parts of the transcript that best match `query`, in the order of the video and together at
+ * most `maxChars` long. Adjacent chunks are merged into one excerpt.
+ */
+export function getTranscriptExcerpts(transcript: Transcript, index: TranscriptIndex, query: string, maxChars: number) {
+  const selectedChunks: TranscriptIndexChunk[] = [];
+  let chars = 0;
+  for (const chunk of searchTranscriptIndex(index, query)) {
+    // Excerpts are sent with timestamps, which count towards the length as well.
+    const chunkChars = getTranscriptText({ segments: transcript.segments.slice(chunk.start, chunk.end) }, true).length;
+    if (chars + chunkChars > maxChars) break;
+
+    selectedChunks.push(chunk);
+    chars += chunkChars;
+  }
+
+  const excerpts: { start: number; end: number }[] = [];
+  selectedChunks
+    .sort((a, b) => a.start - b.start)
+    .forEach(({ start, end }) => {
+      const previousExcerpt = excerpts[excerpts.length - 1];
+      if (previousExcerpt?.end === start) previousExcerpt.end = end;
+      else excerpts.push({ start, end });
+    });
+
+  return excerpts.map(({ start, end }) => getTranscriptText({ segments: transcript.segments.slice(start, end) }, true));
+}
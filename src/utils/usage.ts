@@ -0,0 +1,35 @@
+import type { ModelPrice } from "../const/models";
+import type { TokenUsage, Usage } from "../models/usage";
+import { CHARS_PER_TOKEN } from "./getMaxChars";
+
+// Rough length of an answer, used to estimate the cost before it is written.
+const ESTIMATED_OUTPUT_TOKENS = 800;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export function getCost(price: ModelPrice | undefined, { inputTokens, outputTokens }: TokenUsage) {
+  if (!price) return undefined;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export function addUsage(usage: Usage | undefined, tokens: TokenUsage, price?: ModelPrice): Usage {
+  const inputTokens = (usage?.inputTokens ?? 0) + tokens.inputTokens;
+  const outputTokens = (usage?.outputTokens ?? 0) + tokens.outputTokens;
+  return { inputTokens, outputTokens, cost: getCost(price, { inputTokens, outputTokens }) };
+}
+
+/**
+ * Estimates the usage of a summary: the prompt with the whole transcript, plus a summary of every part
+ * that is sent again in the final prompt when the transcript is longer than `maxChars`.
+ */
+export function estimateSummaryUsage(prompt: string, transcriptLength: number, maxChars: number, price?: ModelPrice) {
+  const parts = transcriptLength > maxChars ? Math.ceil(transcriptLength / maxChars) : 0;
+  const inputTokens = estimateTokens(prompt) + parts * ESTIMATED_OUTPUT_TOKENS;
+  const outputTokens = (parts + 1) * ESTIMATED_OUTPUT_TOKENS;
+  return { inputTokens, outputTokens, cost: getCost(price, { inputTokens, outputTokens }) };
+}
+
+export const formatCost = (cost: number) => (cost < 0.01 ? "< $0.01" : `$${cost.toFixed(2)}`);
+
+export const formatUsage = ({ inputTokens, outputTokens }: TokenUsage) =>
+  `${inputTokens.toLocaleString()} in / ${outputTokens.toLocaleString()} out`;
@@ -0,0 +1,30 @@
+import { LocalStorage } from "@raycast/api";
+import type { UsageEntry } from "../models/usage";
+
+const USAGE_PREFIX = "usage:";
+
+export async function logUsage(entry: Omit<UsageEntry, "id" | "createdAt">) {
+  const createdAt = new Date().toISOString();
+  const id = `${createdAt}-${Math.random().toString(36).slice(2, 8)}`;
+  await LocalStorage.setItem(USAGE_PREFIX + id, JSON.stringify({ ...entry, id, createdAt }));
+}
+
+/**
+ * Returns all logged requests, newest first.
+ */
+export async function getUsageHistory() {
+  const items = await LocalStorage.allItems<Record<string, string>>();
+  return Object.entries(items)
+    .filter(([key]) => key.startsWith(USAGE_PREFIX))
+    .map(([, value]) => JSON.parse(value) as UsageEntry)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function clearUsageHistory() {
+  const items = await LocalStorage.allItems<Record<string, string>>();
+  await Promise.all(
+    Object.keys(items)
+      .filter((key) => key.startsWith(USAGE_PREFIX))
+      .map((key) => LocalStorage.removeItem(key)),
+  );
+}
@@ -0,0 +1,19 @@
+import { openExtensionPreferences, showToast, Toast } from "@raycast/api";
+import { ALERT } from "../const/toast_messages";
+import type { SummaryProvider } from "../providers/types";
+
+export function validateProvider(provider: Pick<SummaryProvider, "validate">) {
+  const configurationError = provider.validate();
+  if (!configurationError) return true;
+
+  showToast({
+    style: Toast.Style.Failure,
+    title: ALERT.title,
+    message: configurationError,
+    primaryAction: {
+      title: "Open Extension Preferences",
+      onAction: () => openExtensionPreferences(),
+    },
+  });
+  return false;
+}